@@ -44,6 +44,8 @@ npx tsc --init
 ### Component Props
 
 ```typescript
+import { useTranslation } from '../context/I18nContext';
+
 // Basic component with typed props
 interface GreetingProps {
   name: string;
@@ -52,9 +54,12 @@ interface GreetingProps {
 }
 
 const Greeting: React.FC<GreetingProps> = ({ name, age, onPress }) => {
+  const { t } = useTranslation();
+
   return (
-    <TouchableOpacity onPress={onPress}>
-      <Text>Hello, {name}! {age ? `You are ${age} years old.` : ''}</Text>
+    // Screen readers announce the text inside as the label
+    <TouchableOpacity onPress={onPress} accessibilityRole="button">
+      <Text>{t('greeting.hello', { name })} {age ? t('greeting.age', { count: age }) : ''}</Text>
     </TouchableOpacity>
   );
 };
@@ -101,13 +106,16 @@ const handleChange = (e: NativeSyntheticEvent<TextInputChangeEventData>) => {
   console.log(text);
 };
 
-// Typing gesture events
-import { GestureResponderEvent } from 'react-native';
+// Typing gesture events; the analytics payload is checked against the event name
+import { GestureResponderEvent, TouchableOpacity } from 'react-native';
+import { track } from '../analytics';
 
-const handlePress = (event: GestureResponderEvent) => {
-  const { locationX, locationY } = event.nativeEvent;
-  console.log(`Pressed at: ${locationX}, ${locationY}`);
+// The caller names the button, so one handler reports every button accurately
+const createPressHandler = (button: string) => (_event: GestureResponderEvent): void => {
+  track('button_pressed', { button });
 };
+
+<TouchableOpacity onPress={createPressHandler('checkout')} />
 ```
 
 ## React Native Component Props
@@ -128,12 +136,44 @@ interface CustomButtonProps extends TouchableOpacityProps {
   variant?: 'primary' | 'secondary' | 'outline';
 }
 
+// Colors, radii and spacing come from the active theme instead of literals
+const useButtonStyles = createThemedStyles(theme => ({
+  base: {
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.radii.md,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  primary: { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+  secondary: { backgroundColor: theme.colors.secondary, borderColor: theme.colors.secondary },
+  outline: { backgroundColor: 'transparent', borderColor: theme.colors.primary },
+  label: { ...theme.typography.body, fontWeight: '600' },
+  primaryLabel: { color: theme.colors.onPrimary },
+  secondaryLabel: { color: theme.colors.onPrimary },
+  outlineLabel: { color: theme.colors.primary },
+}));
+
 const CustomButton: React.FC<CustomButtonProps> = ({
   title,
   variant = 'primary',
+  style,
   ...touchableProps
 }) => {
-  // Implementation
+  const styles = useButtonStyles();
+
+  return (
+    <TouchableOpacity
+      style={[styles.base, styles[variant], style]}
+      accessibilityRole="button"
+      // The title doubles as the label unless the caller passes a more specific one
+      accessibilityLabel={title}
+      accessibilityState={{ disabled: !!touchableProps.disabled }}
+      {...touchableProps}
+    >
+      <Text style={[styles.label, styles[`${variant}Label`]]}>{title}</Text>
+    </TouchableOpacity>
+  );
 };
 ```
 
@@ -186,14 +226,25 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
+import { useEffect } from 'react';
+import { track } from '../analytics';
 
 // Define navigation parameters for type safety
 type RootStackParamList = {
   Home: undefined;
+  Login: undefined;
   Profile: { userId: string; name: string };
   Settings: { section?: 'appearance' | 'privacy' | 'notifications' };
+  Admin: undefined;
 };
 
+// Lets code outside the navigator, such as screen tracking, use these screen names
+declare global {
+  namespace ReactNavigation {
+    interface RootParamList extends RootStackParamList {}
+  }
+}
+
 const Stack = createStackNavigator<RootStackParamList>();
 
 // Type for the navigation prop
@@ -210,6 +261,10 @@ interface ProfileScreenProps {
 
 const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route }) => {
   const { userId, name } = route.params;
+
+  useEffect(() => {
+    track('profile_viewed', { userId });
+  }, [userId]);
   
   return (
     <View>
@@ -224,105 +279,935 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ navigation, route }) => {
 };
 ```
 
+### Typed Deep Links
+
+Map each screen in the param list to a URL pattern and a param schema, so incoming links are parsed and validated with the same types `navigate` uses:
+
+```typescript
+import { LinkingOptions } from '@react-navigation/native';
+import { reportError } from '../utils/errorReporting';
+import { Schema, s } from '../utils/schema';
+
+// Screens without params only need a path; the rest also declare a schema for their params
+type ScreenLinkConfig<Params> = [Params] extends [undefined]
+  ? { path: string }
+  : { path: string; params: Schema<Params> };
+
+type LinkingConfig<ParamList> = {
+  [Screen in keyof ParamList]: ScreenLinkConfig<ParamList[Screen]>;
+};
+
+type DeepLink<ParamList> = {
+  [Screen in keyof ParamList]: { screen: Screen; params: ParamList[Screen] };
+}[keyof ParamList];
+
+// Params may be omitted when the screen has none or every field is optional
+type ParamsArg<Params> = undefined extends Params
+  ? [params?: Params]
+  : {} extends Params
+    ? [params?: Params]
+    : [params: Params];
+
+function parseQuery(query: string): Record<string, string> {
+  const raw: Record<string, string> = {};
+  query.split('&').filter(Boolean).forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    raw[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+  });
+  return raw;
+}
+
+// Matches 'profile/42' against 'profile/:userId'; ':param?' marks an optional segment
+function matchPath(pattern: string, path: string): Record<string, string> | null {
+  const expected = pattern.split('/').filter(Boolean);
+  const actual = path.split('/').filter(Boolean);
+  if (actual.length > expected.length) return null;
+
+  const raw: Record<string, string> = {};
+  for (let index = 0; index < expected.length; index++) {
+    const segment = expected[index];
+    const value = actual[index];
+    if (segment.startsWith(':')) {
+      const optional = segment.endsWith('?');
+      const name = segment.slice(1, optional ? -1 : undefined);
+      if (value === undefined && !optional) return null;
+      if (value !== undefined) raw[name] = decodeURIComponent(value);
+    } else if (segment !== value) {
+      return null;
+    }
+  }
+  return raw;
+}
+
+function createLinking<ParamList extends Record<string, object | undefined>>(
+  config: LinkingConfig<ParamList>,
+  { prefixes }: { prefixes: string[] }
+) {
+  const screens = Object.keys(config) as Array<keyof ParamList & string>;
+
+  const stripPrefix = (url: string): string => {
+    const prefix = prefixes.find(candidate => url.startsWith(candidate));
+    return (prefix ? url.slice(prefix.length) : url).replace(/^\/+/, '');
+  };
+
+  // Returns null when no screen matches; throws ValidationError (e.g. field 'Profile.userId') for bad params
+  // and URIError for a malformed escape such as '%E0'
+  function parse(url: string): DeepLink<ParamList> | null {
+    const [path, query = ''] = stripPrefix(url).split('?');
+    for (const screen of screens) {
+      const screenConfig: { path: string; params?: Schema<unknown> } = config[screen];
+      const pathParams = matchPath(screenConfig.path, path);
+      if (!pathParams) continue;
+
+      const raw = { ...parseQuery(query), ...pathParams };
+      const params = screenConfig.params ? screenConfig.params.parse(raw, screen) : undefined;
+      // The schema for this screen guarantees params match ParamList[screen]
+      return { screen, params } as DeepLink<ParamList>;
+    }
+    return null;
+  }
+
+  function buildUrl<Screen extends keyof ParamList & string>(
+    screen: Screen,
+    ...[params]: ParamsArg<ParamList[Screen]>
+  ): string {
+    const screenConfig: { path: string; params?: Schema<unknown> } = config[screen];
+    const values: Record<string, unknown> = { ...(screenConfig.params?.parse(params ?? {}, screen) ?? {}) };
+
+    const path = screenConfig.path
+      .split('/')
+      .filter(Boolean)
+      .flatMap(segment => {
+        if (!segment.startsWith(':')) return [segment];
+        const name = segment.replace(/^:|\?$/g, '');
+        const value = values[name];
+        delete values[name];
+        return value === undefined ? [] : [encodeURIComponent(String(value))];
+      })
+      .join('/');
+
+    const query = Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+
+    return `${prefixes[0]}${path}${query ? `?${query}` : ''}`;
+  }
+
+  // Plugs the same config into NavigationContainer's linking prop
+  const linkingOptions: LinkingOptions<ParamList> = {
+    prefixes,
+    getStateFromPath: (path) => {
+      // Links come from outside the app; a bad one opens the initial route instead of crashing navigation
+      try {
+        const link = parse(path);
+        return link ? { routes: [{ name: String(link.screen), params: link.params }] } : undefined;
+      } catch (error) {
+        reportError(error, { path });
+        return undefined;
+      }
+    },
+  };
+
+  return { parse, buildUrl, linkingOptions };
+}
+
+// Route config for RootStackParamList
+const linking = createLinking<RootStackParamList>(
+  {
+    Home: { path: '' },
+    Login: { path: 'login' },
+    Profile: {
+      path: 'profile/:userId',
+      params: s.object({ userId: s.string(), name: s.string() }),
+    },
+    Settings: {
+      path: 'settings/:section?',
+      params: s.object({ section: s.optional(s.oneOf('appearance', 'privacy', 'notifications')) }),
+    },
+    Admin: { path: 'admin' },
+  },
+  { prefixes: ['myapp://', 'https://example.com/'] }
+);
+
+linking.parse('myapp://profile/42?name=Ada'); // { screen: 'Profile', params: { userId: '42', name: 'Ada' } }
+linking.parse('myapp://settings/billing');    // throws ValidationError in field 'Settings.section'
+linking.buildUrl('Settings', { section: 'privacy' }); // 'myapp://settings/privacy'
+linking.buildUrl('Profile', { userId: '42' });         // compile error: 'name' is missing
+
+<NavigationContainer linking={linking.linkingOptions}>
+  <RootNavigator />
+</NavigationContainer>
+```
+
+### Protected Routes
+
+Declare who may open each screen, then register only the screens the current user is allowed to see. React Navigation cannot navigate to a screen that is not registered, so a `user` has no way into `Admin`:
+
+```typescript
+import { useEffect } from 'react';
+import { ActivityIndicator, AppState } from 'react-native';
+import { configureAnalytics, createConsoleAnalyticsSink, createHttpAnalyticsSink } from '../analytics';
+import { useScreenTracking } from '../analytics/useScreenTracking';
+import { AuthProvider, AuthService, sessionSchema, tokensSchema, useAuth } from '../context/AuthContext';
+import { createRouteGuard } from '../navigation/routeGuards';
+import { createApiClient } from '../api/apiClient';
+import { createSecureStorage } from '../utils/secureStorage';
+
+// Leaving a screen out of this map is a compile error
+const routeGuard = createRouteGuard<RootStackParamList>({
+  Home: 'public',
+  Login: 'public',
+  Profile: 'authenticated',
+  Settings: 'authenticated',
+  Admin: ['admin'],
+});
+
+const RootNavigator: React.FC = () => {
+  const { status, user } = useAuth();
+
+  // Wait for the stored session so a signed-in user never sees the login screen flash
+  if (status === 'restoring') {
+    return <ActivityIndicator />;
+  }
+
+  return (
+    <Stack.Navigator>
+      <Stack.Screen name="Home" component={HomeScreen} />
+      {routeGuard.canAccess('Profile', user) && <Stack.Screen name="Profile" component={ProfileScreen} />}
+      {routeGuard.canAccess('Settings', user) && <Stack.Screen name="Settings" component={SettingsScreen} />}
+      {routeGuard.canAccess('Admin', user) && <Stack.Screen name="Admin" component={AdminScreen} />}
+      {user === null && <Stack.Screen name="Login" component={LoginScreen} />}
+    </Stack.Navigator>
+  );
+};
+
+const baseUrl = process.env.EXPO_PUBLIC_API_URL ?? 'https://api.example.com';
+
+// Refresh goes through its own client, so a rejected refresh token cannot trigger another refresh
+const authApi = createApiClient({ baseUrl });
+
+const authService: AuthService = {
+  login: async (credentials) => (await authApi.post('/auth/login', credentials, { parse: sessionSchema.parse })).data,
+  refresh: async (refreshToken) => (await authApi.post('/auth/refresh', { refreshToken }, { parse: tokensSchema.parse })).data,
+  logout: async (tokens) => {
+    await authApi.post('/auth/logout', { refreshToken: tokens.refreshToken });
+  },
+};
+
+// Events are batched; the console sink keeps them visible during development
+const analytics = configureAnalytics({
+  sinks: __DEV__ ? [createConsoleAnalyticsSink()] : [createHttpAnalyticsSink(api, '/analytics/events')],
+  storage: createSecureStorage(),
+});
+
+// `api` is the client every screen uses; the provider adds the token and refreshes it on 401
+const App: React.FC = () => {
+  // Tracks screen_viewed for the first screen and every screen change after it
+  const screenTracking = useScreenTracking(analytics);
+
+  // Send what is queued before the OS suspends the app
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') analytics.flush();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <AuthProvider client={api} service={authService} storage={createSecureStorage()}>
+      <NavigationContainer {...screenTracking} linking={linking.linkingOptions}>
+        <RootNavigator />
+      </NavigationContainer>
+    </AuthProvider>
+  );
+};
+```
+
+Opting out stops tracking immediately, drops anything not sent yet and is remembered across launches:
+
+```typescript
+import { useEffect, useState } from 'react';
+import { Switch } from 'react-native';
+import { useTranslation } from '../context/I18nContext';
+
+const ShareUsageDataSwitch: React.FC = () => {
+  const { t } = useTranslation();
+  const [enabled, setEnabled] = useState(true);
+
+  useEffect(() => {
+    analytics.isOptedOut().then(optedOut => setEnabled(!optedOut));
+  }, []);
+
+  return (
+    <Switch
+      value={enabled}
+      onValueChange={(next) => {
+        setEnabled(next);
+        analytics.setOptedOut(!next);
+      }}
+      accessibilityLabel={t('settings.shareUsageData')}
+    />
+  );
+};
+```
+
+A secure storage adapter only has to satisfy `StorageAdapter`:
+
+```typescript
+import * as SecureStore from 'expo-secure-store';
+import { StorageAdapter } from './storage';
+
+export const createSecureStorage = (): StorageAdapter => ({
+  getItem: (key) => SecureStore.getItemAsync(key),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value),
+  removeItem: (key) => SecureStore.deleteItemAsync(key),
+});
+```
+
 ## Working with Expo APIs
 
+Native calls sit behind small adapters and return a `Result` instead of logging and returning `undefined`, so a denied permission is a value the caller has to handle:
+
 ```typescript
 import * as Location from 'expo-location';
 import * as ImagePicker from 'expo-image-picker';
+import { AppError, CancelledError, PermissionDeniedError, toAppError } from '../utils/errorHandling';
 
-// Location types
-const getLocation = async () => {
-  const { status } = await Location.requestForegroundPermissionsAsync();
-  
-  if (status !== 'granted') {
-    console.log('Permission denied');
-    return;
-  }
-  
-  const location: Location.LocationObject = await Location.getCurrentPositionAsync({});
-  console.log(location.coords.latitude, location.coords.longitude);
+type Result<T, E = AppError> = { ok: true; value: T } | { ok: false; error: E };
+
+function success<T>(value: T): Result<T, never> {
+  return { ok: true, value };
+}
+
+function failure<E>(error: E): Result<never, E> {
+  return { ok: false, error };
+}
+
+type PermissionStatus = 'granted' | 'denied' | 'undetermined';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  timestamp: number;
+}
+
+interface WatchOptions {
+  // Metres moved / milliseconds passed before the next update
+  distanceInterval?: number;
+  timeInterval?: number;
+}
+
+// Only what the app uses from expo-location, so tests can pass a fake
+interface LocationAdapter {
+  requestPermission: () => Promise<PermissionStatus>;
+  getCurrentPosition: () => Promise<Coordinates>;
+  // Resolves with a function that stops watching
+  watchPosition: (onChange: (coords: Coordinates) => void, options: WatchOptions) => Promise<() => void>;
+}
+
+interface PickedImage {
+  uri: string;
+  width: number;
+  height: number;
+  fileName?: string | null;
+  mimeType?: string;
+}
+
+interface PickImageOptions {
+  allowsEditing?: boolean;
+  aspect?: [number, number];
+  quality?: number;
+  allowsMultipleSelection?: boolean;
+}
+
+interface ImagePickerAdapter {
+  requestPermission: () => Promise<PermissionStatus>;
+  // null when the picker is closed without choosing anything
+  pick: (options: PickImageOptions) => Promise<PickedImage[] | null>;
+}
+
+const toCoordinates = ({ coords, timestamp }: Location.LocationObject): Coordinates => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  accuracy: coords.accuracy,
+  timestamp,
+});
+
+const expoLocation: LocationAdapter = {
+  requestPermission: async () => (await Location.requestForegroundPermissionsAsync()).status,
+  getCurrentPosition: async () => toCoordinates(await Location.getCurrentPositionAsync({})),
+  watchPosition: async (onChange, options) => {
+    const subscription = await Location.watchPositionAsync(options, location => onChange(toCoordinates(location)));
+    return () => subscription.remove();
+  },
 };
 
-// Image picker types
-const pickImage = async () => {
-  const result: ImagePicker.ImagePickerResult = await ImagePicker.launchImageLibraryAsync({
-    mediaTypes: ImagePicker.MediaTypeOptions.Images,
-    allowsEditing: true,
-    aspect: [4, 3],
-    quality: 1,
+const expoImagePicker: ImagePickerAdapter = {
+  requestPermission: async () => (await ImagePicker.requestMediaLibraryPermissionsAsync()).status,
+  pick: async (options) => {
+    const result: ImagePicker.ImagePickerResult = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      ...options,
+    });
+    return result.canceled ? null : result.assets;
+  },
+};
+
+// Asks for the permission first; a denial or a thrown native error becomes a failed Result
+async function withPermission<T>(
+  requestPermission: () => Promise<PermissionStatus>,
+  permission: string,
+  run: () => Promise<Result<T>>
+): Promise<Result<T>> {
+  try {
+    const status = await requestPermission();
+    if (status !== 'granted') {
+      return failure(new PermissionDeniedError(`${permission} permission is ${status}`, permission, {
+        userMessage: { key: 'errors.permissionSettings', params: { permission } },
+      }));
+    }
+    return await run();
+  } catch (error) {
+    return failure(toAppError(error));
+  }
+}
+
+const getLocation = (adapter: LocationAdapter = expoLocation): Promise<Result<Coordinates>> =>
+  withPermission(adapter.requestPermission, 'location', async () => success(await adapter.getCurrentPosition()));
+
+const pickImage = (
+  options: PickImageOptions = { allowsEditing: true, aspect: [4, 3], quality: 1 },
+  adapter: ImagePickerAdapter = expoImagePicker
+): Promise<Result<PickedImage[]>> =>
+  withPermission(adapter.requestPermission, 'photo library', async () => {
+    const assets = await adapter.pick(options);
+    return assets ? success(assets) : failure(new CancelledError('Image picking was cancelled'));
   });
 
-  if (!result.canceled) {
-    const uri = result.assets[0].uri;
-    // Do something with the image
+// Usage
+const result = await pickImage();
+if (result.ok) {
+  // Upload with uploadImages below; each entry is a Result holding the uploaded PhotoMedia
+  const [firstUpload] = await uploadImages(result.value, { transport: uploadTransport });
+} else if (result.error.code === 'PERMISSION_DENIED') {
+  Alert.alert(result.error.userMessage);
+}
+```
+
+### Capability Hooks
+
+The hooks read their adapters from context, which defaults to Expo, so a test swaps in fakes without touching native modules:
+
+```typescript
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+
+interface DeviceAdapters {
+  location: LocationAdapter;
+  imagePicker: ImagePickerAdapter;
+}
+
+const DeviceContext = createContext<DeviceAdapters>({ location: expoLocation, imagePicker: expoImagePicker });
+
+const DeviceProvider: React.FC<React.PropsWithChildren<Partial<DeviceAdapters>>> = ({ children, ...adapters }) => {
+  const parent = useContext(DeviceContext);
+  return <DeviceContext.Provider value={{ ...parent, ...adapters }}>{children}</DeviceContext.Provider>;
+};
+
+interface UseLocationOptions extends WatchOptions {
+  // Keep updating after the first fix
+  watch?: boolean;
+}
+
+const useLocation = ({ watch = false, distanceInterval, timeInterval }: UseLocationOptions = {}) => {
+  const { location } = useContext(DeviceContext);
+  // null until the first fix or failure
+  const [result, setResult] = useState<Result<Coordinates> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    let stopWatching: (() => void) | undefined;
+
+    const start = async () => {
+      setLoading(true);
+      const first = await getLocation(location);
+      if (!active) return;
+      setResult(first);
+      setLoading(false);
+      if (!watch || !first.ok) return;
+
+      try {
+        const stop = await location.watchPosition((coords) => {
+          if (active) setResult(success(coords));
+        }, { distanceInterval, timeInterval });
+        // Unmounted while the watch was starting
+        if (active) stopWatching = stop;
+        else stop();
+      } catch (error) {
+        if (active) setResult(failure(toAppError(error)));
+      }
+    };
+    start();
+
+    return () => {
+      active = false;
+      stopWatching?.();
+    };
+  }, [location, watch, distanceInterval, timeInterval, attempt]);
+
+  // Asks again, e.g. after the user granted the permission in Settings
+  const retry = useCallback(() => setAttempt(n => n + 1), []);
+
+  return { result, loading, retry };
+};
+
+const useImagePicker = (options?: PickImageOptions) => {
+  const { imagePicker } = useContext(DeviceContext);
+  const [result, setResult] = useState<Result<PickedImage[]> | null>(null);
+  const [picking, setPicking] = useState(false);
+  // Latest options without recreating pick on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const active = useRef(true);
+
+  useEffect(() => {
+    active.current = true;
+    return () => {
+      active.current = false;
+    };
+  }, []);
+
+  const pick = useCallback(async (): Promise<Result<PickedImage[]>> => {
+    setPicking(true);
+    const next = await pickImage(optionsRef.current, imagePicker);
+    // The screen can unmount while the picker is open; the caller still gets the result
+    if (active.current) {
+      setResult(next);
+      setPicking(false);
+    }
+    return next;
+  }, [imagePicker]);
+
+  return { result, picking, pick };
+};
+
+// Usage
+const NearbyScreen: React.FC = () => {
+  const { result, loading, retry } = useLocation({ watch: true, distanceInterval: 50 });
+
+  if (loading || !result) return <ActivityIndicator />;
+
+  if (!result.ok) {
+    return (
+      <View>
+        <Text>{result.error.userMessage}</Text>
+        <Button title="Try again" onPress={retry} />
+      </View>
+    );
   }
+
+  return <Text>{result.value.latitude}, {result.value.longitude}</Text>;
 };
+
+// Fakes for tests; move() and the fixed results stand in for the device
+const createFakeLocation = (initial: Coordinates, permission: PermissionStatus = 'granted') => {
+  const watchers = new Set<(coords: Coordinates) => void>();
+  let current = initial;
+
+  const adapter: LocationAdapter = {
+    requestPermission: async () => permission,
+    getCurrentPosition: async () => current,
+    watchPosition: async (onChange) => {
+      watchers.add(onChange);
+      return () => {
+        watchers.delete(onChange);
+      };
+    },
+  };
+
+  const move = (coords: Coordinates) => {
+    current = coords;
+    watchers.forEach(watcher => watcher(coords));
+  };
+
+  return { adapter, move };
+};
+
+const createFakeImagePicker = (permission: PermissionStatus = 'granted', assets: PickedImage[] | null = []): ImagePickerAdapter => ({
+  requestPermission: async () => permission,
+  pick: async () => assets,
+});
+
+const origin: Coordinates = { latitude: 52.37, longitude: 4.89, accuracy: 5, timestamp: 0 };
+
+<DeviceProvider location={createFakeLocation(origin, 'denied').adapter} imagePicker={createFakeImagePicker()}>
+  <NearbyScreen />
+</DeviceProvider>
 ```
 
-## API and Async Operations
+### Uploading Picked Images
+
+Picked assets are uploaded in chunks and come back as `PhotoMedia`. A failed chunk is retried from the offset the server reports, so bytes that already arrived are not sent twice:
 
 ```typescript
-// Define TypeScript interfaces for API responses
-interface User {
-  id: string;
+import { ApiClient } from '../api/apiClient';
+import { ApiError, CancelledError, NetworkError, TimeoutError, isApiError, toAppError } from '../utils/errorHandling';
+
+interface UploadFile {
   name: string;
-  email: string;
-  createdAt: string;
+  size: number;
+  mimeType: string;
 }
 
-// API client with TypeScript
-const fetchUser = async (userId: string): Promise<User> => {
-  try {
-    const response = await fetch(`https://api.example.com/users/${userId}`);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error: ${response.status}`);
+// Server side of a resumable upload
+interface UploadTransport {
+  start: (file: UploadFile, signal: AbortSignal) => Promise<{ uploadId: string }>;
+  // Bytes the server has stored so far
+  status: (uploadId: string, signal: AbortSignal) => Promise<{ received: number }>;
+  sendChunk: (uploadId: string, offset: number, chunk: Blob, signal: AbortSignal) => Promise<void>;
+  finish: (uploadId: string, signal: AbortSignal) => Promise<{ url: string }>;
+}
+
+type UploadEvent =
+  | { type: 'progress'; index: number; sent: number; total: number }
+  | { type: 'retry'; index: number; attempt: number; error: AppError }
+  | { type: 'done'; index: number; media: PhotoMedia }
+  | { type: 'failed'; index: number; error: AppError };
+
+interface UploadOptions {
+  transport: UploadTransport;
+  chunkSize?: number;
+  // Assets uploading at the same time
+  concurrency?: number;
+  // Attempts per chunk before the asset fails
+  maxAttempts?: number;
+  retryDelay?: number;
+  signal?: AbortSignal;
+  onEvent?: (event: UploadEvent) => void;
+  readFile?: (uri: string) => Promise<Blob>;
+  // Alt text for each photo; the file name is only a fallback, so ask the user where you can
+  describe?: (asset: PickedImage, index: number) => string;
+}
+
+const createHttpUploadTransport = (client: ApiClient): UploadTransport => ({
+  start: async (file, signal) => (await client.post<{ uploadId: string }>('/uploads', file, { signal })).data,
+  status: async (uploadId, signal) => (await client.get<{ received: number }>(`/uploads/${uploadId}`, { signal })).data,
+  sendChunk: async (uploadId, offset, chunk, signal) => {
+    await client.put(`/uploads/${uploadId}`, chunk, {
+      signal,
+      // The pipeline resumes failed chunks itself
+      retries: 0,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${offset}-${offset + chunk.size - 1}/*`,
+      },
+    });
+  },
+  finish: async (uploadId, signal) => (await client.post<{ url: string }>(`/uploads/${uploadId}/complete`, undefined, { signal })).data,
+});
+
+// 409 means the server is at a different offset, which the resume below corrects
+const RETRYABLE_STATUSES = [408, 409, 429];
+const isRetryable = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  (isApiError(error) && (RETRYABLE_STATUSES.includes(error.status) || error.status >= 500));
+
+const readFileFromUri = async (uri: string): Promise<Blob> => (await fetch(uri)).blob();
+
+// Rejects as soon as the upload is cancelled instead of finishing the wait
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new CancelledError('Upload was cancelled'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Upload was cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+async function uploadAsset(
+  asset: PickedImage,
+  index: number,
+  signal: AbortSignal,
+  options: Required<Pick<UploadOptions, 'transport' | 'chunkSize' | 'maxAttempts' | 'retryDelay' | 'readFile' | 'describe'>> &
+    Pick<UploadOptions, 'onEvent'>
+): Promise<PhotoMedia> {
+  const { transport, chunkSize, maxAttempts, retryDelay, readFile, describe, onEvent } = options;
+  const file = await readFile(asset.uri);
+  const total = file.size;
+  const { uploadId } = await transport.start({
+    name: asset.fileName ?? `image-${index}.jpg`,
+    size: total,
+    mimeType: asset.mimeType ?? 'image/jpeg',
+  }, signal);
+
+  let offset = 0;
+  let attempt = 0;
+  let resume = false;
+  while (offset < total) {
+    if (signal.aborted) throw new CancelledError('Upload was cancelled');
+
+    try {
+      // The failed chunk may have landed before its response was lost; a failed check uses up an attempt too
+      if (resume) {
+        offset = (await transport.status(uploadId, signal)).received;
+        resume = false;
+        continue;
+      }
+
+      const end = Math.min(offset + chunkSize, total);
+      await transport.sendChunk(uploadId, offset, file.slice(offset, end), signal);
+      offset = end;
+      attempt = 0;
+      onEvent?.({ type: 'progress', index, sent: offset, total });
+    } catch (error) {
+      attempt += 1;
+      if (signal.aborted || !isRetryable(error) || attempt >= maxAttempts) throw error;
+      onEvent?.({ type: 'retry', index, attempt, error: toAppError(error) });
+      await sleep(retryDelay * 2 ** (attempt - 1), signal);
+      resume = true;
     }
-    
-    const data: User = await response.json();
-    return data;
-  } catch (error) {
-    console.error('Error fetching user:', error);
-    throw error;
   }
+
+  const { url } = await transport.finish(uploadId, signal);
+  return { type: 'photo', uri: url, width: asset.width, height: asset.height, alt: describe(asset, index) };
+}
+
+// Results keep the order of the assets; one failed upload does not stop the others
+async function uploadImages(assets: PickedImage[], options: UploadOptions): Promise<Result<PhotoMedia>[]> {
+  const {
+    concurrency = 2,
+    chunkSize = 256 * 1024,
+    maxAttempts = 3,
+    retryDelay = 500,
+    readFile = readFileFromUri,
+    describe = (asset, index) => asset.fileName ?? `Photo ${index + 1}`,
+    signal = new AbortController().signal,
+    onEvent,
+  } = options;
+  const settings = { transport: options.transport, chunkSize, maxAttempts, retryDelay, readFile, describe, onEvent };
+  const results: Result<PhotoMedia>[] = new Array(assets.length);
+  let next = 0;
+
+  // Each worker takes the next asset until none are left
+  const worker = async () => {
+    while (next < assets.length) {
+      const index = next++;
+      try {
+        const media = await uploadAsset(assets[index], index, signal, settings);
+        results[index] = success(media);
+        onEvent?.({ type: 'done', index, media });
+      } catch (error) {
+        const appError = signal.aborted ? new CancelledError('Upload was cancelled', { cause: error }) : toAppError(error);
+        results[index] = failure(appError);
+        onEvent?.({ type: 'failed', index, error: appError });
+      }
+    }
+  };
+
+  // At least one worker, or a concurrency of 0 would leave every result unset
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), assets.length) }, worker));
+  return results;
+}
+
+// Progress per asset from 0 to 1; starting a new upload or unmounting cancels the running one
+const useImageUpload = (transport: UploadTransport, options: Omit<UploadOptions, 'transport' | 'signal' | 'onEvent'> = {}) => {
+  const [progress, setProgress] = useState<number[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+  useEffect(() => cancel, [cancel]);
+
+  const upload = useCallback(async (assets: PickedImage[]): Promise<Result<PhotoMedia>[]> => {
+    controller.current?.abort();
+    const current = new AbortController();
+    controller.current = current;
+    setProgress(assets.map(() => 0));
+    setUploading(true);
+
+    const results = await uploadImages(assets, {
+      ...optionsRef.current,
+      transport,
+      signal: current.signal,
+      onEvent: (event) => {
+        if (event.type === 'progress' && !current.signal.aborted) {
+          setProgress(prev => prev.map((value, index) => (index === event.index ? event.sent / event.total : value)));
+        }
+      },
+    });
+
+    if (controller.current === current) {
+      controller.current = null;
+      setUploading(false);
+    }
+    return results;
+  }, [transport]);
+
+  return { upload, cancel, progress, uploading };
 };
 
-// Usage with async/await
-const loadUserData = async () => {
-  try {
-    const user = await fetchUser('123');
-    setUser(user);
-  } catch (error) {
-    setError(error.message);
-  } finally {
-    setLoading(false);
+// Usage
+const uploadTransport = createHttpUploadTransport(api);
+
+const AddPhotosButton: React.FC<{ onAdded: (media: PhotoMedia[]) => void }> = ({ onAdded }) => {
+  const { pick } = useImagePicker({ allowsMultipleSelection: true, quality: 0.8 });
+  const { upload, cancel, progress, uploading } = useImageUpload(uploadTransport, { concurrency: 3 });
+
+  const handlePress = async () => {
+    const picked = await pick();
+    if (!picked.ok) return;
+    const results = await upload(picked.value);
+    onAdded(results.flatMap(result => (result.ok ? [result.value] : [])));
+  };
+
+  if (uploading) {
+    const done = progress.reduce((sum, value) => sum + value, 0) / progress.length;
+    return <Button title={`Uploading ${Math.round(done * 100)}% (cancel)`} onPress={cancel} />;
   }
+  return <Button title="Add photos" onPress={handlePress} />;
+};
+
+// In-memory server for tests; the first `failures` chunk writes are stored but answer 503, like a lost response
+const createMockUploadTransport = ({ failures = 0, latency = 0 } = {}) => {
+  const uploads = new Map<string, UploadFile & { received: number }>();
+  let failuresLeft = failures;
+  let sequence = 0;
+
+  const wait = (signal: AbortSignal) => sleep(latency, signal);
+
+  const find = (uploadId: string) => {
+    const upload = uploads.get(uploadId);
+    if (!upload) throw new ApiError(`Unknown upload ${uploadId}`, 404);
+    return upload;
+  };
+
+  const transport: UploadTransport = {
+    start: async (file, signal) => {
+      await wait(signal);
+      const uploadId = `upload-${++sequence}`;
+      uploads.set(uploadId, { ...file, received: 0 });
+      return { uploadId };
+    },
+    status: async (uploadId, signal) => {
+      await wait(signal);
+      return { received: find(uploadId).received };
+    },
+    sendChunk: async (uploadId, offset, chunk, signal) => {
+      await wait(signal);
+      const upload = find(uploadId);
+      if (offset !== upload.received) throw new ApiError(`Expected offset ${upload.received}`, 409);
+      upload.received += chunk.size;
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new ApiError('Service unavailable', 503);
+      }
+    },
+    finish: async (uploadId, signal) => {
+      await wait(signal);
+      const upload = find(uploadId);
+      if (upload.received !== upload.size) throw new ApiError('Upload is incomplete', 409);
+      return { url: `https://cdn.example.com/${uploadId}/${upload.name}` };
+    },
+  };
+
+  return { transport, uploads };
 };
 ```
 
+## API and Async Operations
+
+```typescript
+// Describe API responses with a schema and infer the interface from it
+import { Infer, s } from '../utils/schema';
+import { emailSchema } from '../types/schemas';
+
+const userSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: emailSchema,
+  createdAt: s.string(),
+});
+
+type User = Infer<typeof userSchema>;
+
+// API client with TypeScript: base URL, timeouts, retries and ApiError in one place
+import { ApiClient, createApiClient } from '../api/apiClient';
+import { ApiResponse } from '../types';
+
+const api = createApiClient({
+  baseUrl: process.env.EXPO_PUBLIC_API_URL ?? 'https://api.example.com',
+  timeout: 10000,
+  retries: 2,
+});
+
+// Non-2xx responses throw ApiError with the real status; 5xx responses are retried first.
+// A payload that does not match the schema throws ValidationError, e.g. for field 'email'
+// In components, call it through useAsync or useQuery (see Data Fetching Hooks), which expose a failure as `error`
+const fetchUser = (userId: string, client: ApiClient = api): Promise<ApiResponse<User>> =>
+  client.get(`/users/${userId}`, { parse: userSchema.parse });
+```
+
+Tests swap the network for a mock server. Handlers are typed per route, so a fixture that no longer matches the API shape fails to compile:
+
+```typescript
+import { PublicUser } from '../utils/utilityTypes';
+import { createPublicUser } from '../testing/fixtures';
+import { createMockApi } from '../testing/mockApi';
+import { ValidationError } from '../utils/errorHandling';
+
+const server = createMockApi<{ 'GET /users/:id': PublicUser }>();
+
+beforeEach(() => {
+  server.reset();
+  server.on('GET /users/:id', ({ params }) => createPublicUser({ id: params.id }));
+});
+
+it('fetches a user by id', async () => {
+  const { data } = await fetchUser('42', server.createClient());
+
+  expect(data.id).toBe('42');
+  expect(server.requests).toEqual([{ method: 'GET', path: '/users/42', body: undefined }]);
+});
+
+it('rejects a payload without an email', async () => {
+  // A later handler overrides the default for this test only
+  server.on('GET /users/:id', ({ params }) => createPublicUser({ id: params.id, email: 'not-an-email' }));
+
+  await expect(fetchUser('42', server.createClient())).rejects.toBeInstanceOf(ValidationError);
+});
+```
+
 ## Custom Type Definitions and Utilities
 
 ```typescript
-// Type definitions
-export type ThemeMode = 'light' | 'dark' | 'system';
-
-export interface Theme {
-  mode: ThemeMode;
-  colors: {
-    primary: string;
-    secondary: string;
-    background: string;
-    text: string;
-    error: string;
-  };
-  spacing: {
-    xs: number;
-    sm: number;
-    md: number;
-    lg: number;
-    xl: number;
-  };
-}
+// Theme types are shared design tokens: colors, spacing, typography, radii and elevation
+import { Theme } from '../theme/tokens';
+import { createThemedStyles } from '../theme/createThemedStyles';
+
+// Styles derived from tokens are created once per theme
+const useCardStyles = createThemedStyles((theme: Theme) => ({
+  card: {
+    padding: theme.spacing.md,
+    borderRadius: theme.radii.lg,
+    backgroundColor: theme.colors.surface,
+    ...theme.elevation.low,
+  },
+  title: {
+    ...theme.typography.title,
+    color: theme.colors.text,
+  },
+}));
 
 // Utility types
 type Nullable<T> = T | null;
@@ -344,6 +1229,184 @@ function createInitialState<T>(): LoadingState<T> {
 const userState = createInitialState<User>();
 ```
 
+## Data Fetching Hooks
+
+```typescript
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+import { handleError } from '../utils/errorHandling';
+
+type AsyncResult<T> = LoadingState<T> & {
+  refetch: () => Promise<void>;
+};
+
+// Bumps a counter whenever deps change, so effects can list it instead of a dynamic deps array
+function useDepsVersion(deps: DependencyList): number {
+  const ref = useRef({ deps, version: 0 });
+  const prev = ref.current.deps;
+  if (deps.length !== prev.length || deps.some((dep, index) => !Object.is(dep, prev[index]))) {
+    ref.current = { deps, version: ref.current.version + 1 };
+  }
+  return ref.current.version;
+}
+
+// Runs fn whenever deps change; results of superseded or unmounted calls are dropped
+function useAsync<T>(fn: () => Promise<T>, deps: DependencyList): AsyncResult<T> {
+  const [state, setState] = useState<LoadingState<T>>(() => ({ ...createInitialState<T>(), loading: true }));
+  const latestCall = useRef(0);
+  // Inline arrows are fine: only deps decide when to run, and the latest fn is used
+  const fnRef = useRef(fn);
+  fnRef.current = fn;
+  const version = useDepsVersion(deps);
+
+  const run = useCallback(async () => {
+    const call = ++latestCall.current;
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    try {
+      const data = await fnRef.current();
+      if (call === latestCall.current) setState({ data, loading: false, error: null });
+    } catch (error) {
+      if (call === latestCall.current) setState(prev => ({ ...prev, loading: false, error: handleError(error) }));
+    }
+  }, []);
+
+  useEffect(() => {
+    run();
+    return () => {
+      latestCall.current++;
+    };
+  }, [run, version]);
+
+  return { ...state, refetch: run };
+}
+
+// Usage: a failed load is rendered from `error` instead of being logged and dropped
+const UserName: React.FC<{ userId: string }> = ({ userId }) => {
+  const { data: user, loading, error, refetch } = useAsync(
+    () => fetchUser(userId).then(response => response.data),
+    [userId]
+  );
+
+  if (loading) return <ActivityIndicator />;
+  if (error) return <Text onPress={refetch}>{error}</Text>;
+  return <Text>{user?.name}</Text>;
+};
+
+// Keyed cache shared by every useQuery call
+type QueryKey = string | ReadonlyArray<string | number>;
+
+interface QueryEntry<T> {
+  state: LoadingState<T>;
+  updatedAt: number;
+  inFlight: Promise<void> | null;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface QueryOptions {
+  // Cached data younger than this is served without refetching
+  staleTime?: number;
+  enabled?: boolean;
+}
+
+const queryCache = new Map<string, QueryEntry<unknown>>();
+
+// Entries no screen has used for this long are dropped, so the cache only holds live data
+const CACHE_TIME = 5 * 60 * 1000;
+
+const serializeKey = (key: QueryKey): string => typeof key === 'string' ? key : JSON.stringify(key);
+
+function getEntry<T>(key: string): QueryEntry<T> {
+  let entry = queryCache.get(key);
+  if (!entry) {
+    entry = { state: createInitialState<unknown>(), updatedAt: 0, inFlight: null, listeners: new Set() };
+    queryCache.set(key, entry);
+  }
+  return entry as QueryEntry<T>;
+}
+
+function scheduleGc<T>(key: string, entry: QueryEntry<T>): void {
+  clearTimeout(entry.gcTimer);
+  if (entry.listeners.size > 0 || entry.inFlight) return;
+  entry.gcTimer = setTimeout(() => queryCache.delete(key), CACHE_TIME);
+}
+
+function setEntryState<T>(entry: QueryEntry<T>, state: LoadingState<T>): void {
+  entry.state = state;
+  entry.listeners.forEach(listener => listener());
+}
+
+// Concurrent requests for the same key share one promise
+function fetchQuery<T>(key: string, fetcher: () => Promise<T>): Promise<void> {
+  const entry = getEntry<T>(key);
+  if (entry.inFlight) return entry.inFlight;
+
+  // Keep the previous data while revalidating so screens never flash empty
+  setEntryState(entry, { ...entry.state, loading: true, error: null });
+  entry.inFlight = fetcher()
+    .then(
+      data => {
+        entry.updatedAt = Date.now();
+        setEntryState(entry, { data, loading: false, error: null });
+      },
+      (error: unknown) => setEntryState(entry, { ...entry.state, loading: false, error: handleError(error) })
+    )
+    .finally(() => {
+      entry.inFlight = null;
+      scheduleGc(key, entry);
+    });
+  return entry.inFlight;
+}
+
+// Marks a key as stale so the next mount or refetch hits the network
+const invalidateQuery = (key: QueryKey): void => {
+  const entry = queryCache.get(serializeKey(key));
+  if (entry) entry.updatedAt = 0;
+};
+
+function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = 30000, enabled = true }: QueryOptions = {}
+): AsyncResult<T> {
+  const cacheKey = serializeKey(key);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const [state, setState] = useState<LoadingState<T>>(() => getEntry<T>(cacheKey).state);
+
+  useEffect(() => {
+    const entry = getEntry<T>(cacheKey);
+    const sync = () => setState(entry.state);
+    entry.listeners.add(sync);
+    clearTimeout(entry.gcTimer);
+    sync();
+
+    if (enabled && Date.now() - entry.updatedAt > staleTime) {
+      fetchQuery(cacheKey, () => fetcherRef.current());
+    }
+    return () => {
+      entry.listeners.delete(sync);
+      scheduleGc(cacheKey, entry);
+    };
+  }, [cacheKey, enabled, staleTime]);
+
+  const refetch = useCallback(() => fetchQuery(cacheKey, () => fetcherRef.current()), [cacheKey]);
+
+  return { ...state, refetch };
+}
+
+// Usage: cached per user, deduplicated across screens, revalidated in the background
+const UserScreen: React.FC<{ userId: string }> = ({ userId }) => {
+  const { data: user, loading, error, refetch } = useQuery(
+    ['user', userId],
+    () => fetchUser(userId).then(response => response.data)
+  );
+
+  if (loading && !user) return <ActivityIndicator />;
+  if (error) return <Text onPress={refetch}>{error}</Text>;
+  return <Text>{user?.name}</Text>;
+};
+```
+
 ## Form Handling with TypeScript
 
 ```typescript
@@ -385,27 +1448,440 @@ const updateField = <T extends keyof LoginForm>(
 };
 ```
 
+### Reusable Form Hook
+
+The same pattern generalized for any form model, with touched and dirty tracking, sync or async validation and submit state:
+
+```typescript
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { TextInputProps } from 'react-native';
+import { toAppError } from '../utils/errorHandling';
+
+type FormErrors<T> = Partial<Record<keyof T, string>>;
+type FieldFlags<T> = Partial<Record<keyof T, boolean>>;
+
+// Returns an error message, or undefined when the value is valid
+type FieldValidator<T, K extends keyof T> = (
+  value: T[K],
+  values: T
+) => string | undefined | Promise<string | undefined>;
+
+type FieldValidators<T> = { [K in keyof T]?: FieldValidator<T, K> };
+
+// Cross-field rules, e.g. matching passwords
+type FormValidator<T> = (values: T) => FormErrors<T> | Promise<FormErrors<T>>;
+
+// Only string fields can be bound to a TextInput
+type TextFields<T> = { [K in keyof T]: T[K] extends string ? K : never }[keyof T];
+
+interface UseFormOptions<T> {
+  initialValues: T;
+  validators?: FieldValidators<T>;
+  validate?: FormValidator<T>;
+  onSubmit: (values: T) => void | Promise<void>;
+  // Server field names that differ from the form model, e.g. { email_address: 'email' }
+  fieldAliases?: FieldAliases<T>;
+}
+
+interface UseFormResult<T> {
+  values: T;
+  errors: FormErrors<T>;
+  // Set when submitting fails for a reason not tied to one field
+  formError: string | null;
+  touched: FieldFlags<T>;
+  dirty: FieldFlags<T>;
+  isDirty: boolean;
+  isValid: boolean;
+  isSubmitting: boolean;
+  setValue: <K extends keyof T>(field: K, value: T[K]) => void;
+  setErrors: (errors: FormErrors<T>, formError?: string | null) => void;
+  register: <K extends TextFields<T>>(field: K) => Pick<TextInputProps, 'value' | 'onChangeText' | 'onBlur'>;
+  handleSubmit: () => Promise<void>;
+  reset: (values?: T) => void;
+}
+
+// Shared default, so omitting validators does not create a new object and invalidate the callbacks every render
+const noValidators = {};
+
+function useForm<T extends object>({
+  initialValues,
+  validators = noValidators,
+  validate,
+  onSubmit,
+  fieldAliases,
+}: UseFormOptions<T>): UseFormResult<T> {
+  const initialRef = useRef(initialValues);
+  const [values, setValues] = useState<T>(initialValues);
+  const [errors, setErrorState] = useState<FormErrors<T>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [touched, setTouched] = useState<FieldFlags<T>>({});
+  const [isSubmitting, setSubmitting] = useState(false);
+  // Latest validation run per field, so a slow async result cannot overwrite a newer one
+  const validationRuns = useRef<Partial<Record<keyof T, number>>>({});
+
+  const validateField = useCallback(async <K extends keyof T>(field: K, current: T): Promise<string | undefined> => {
+    const validator = validators[field];
+    if (!validator) return undefined;
+
+    const run = (validationRuns.current[field] ?? 0) + 1;
+    validationRuns.current[field] = run;
+    let message: string | undefined;
+    try {
+      message = await validator(current[field], current);
+    } catch (error) {
+      // A check that cannot run, e.g. an availability lookup while offline, blocks the field with the reason
+      message = toAppError(error).userMessage;
+    }
+    if (validationRuns.current[field] === run) {
+      setErrorState(prev => ({ ...prev, [field]: message }));
+    }
+    return message;
+  }, [validators]);
+
+  const setValue = useCallback(<K extends keyof T>(field: K, value: T[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    // Clear error when field is updated; it is checked again on blur or submit
+    setErrorState(prev => (prev[field] ? { ...prev, [field]: undefined } : prev));
+  }, []);
+
+  const setErrors = useCallback((next: FormErrors<T>, nextFormError: string | null = null) => {
+    setErrorState(next);
+    setFormError(nextFormError);
+    setTouched(prev => {
+      const marked = { ...prev };
+      (Object.keys(next) as Array<keyof T>).forEach(field => {
+        marked[field] = true;
+      });
+      return marked;
+    });
+  }, []);
+
+  const register = useCallback(<K extends TextFields<T>>(field: K) => ({
+    value: values[field] as string,
+    onChangeText: (text: string) => setValue(field, text as T[K]),
+    onBlur: () => {
+      setTouched(prev => ({ ...prev, [field]: true }));
+      validateField(field, values);
+    },
+  }), [values, setValue, validateField]);
+
+  const handleSubmit = useCallback(async () => {
+    const fields = Object.keys(values) as Array<keyof T>;
+    const fieldMessages = await Promise.all(fields.map(field => validateField(field, values)));
+    let nextErrors: FormErrors<T>;
+    try {
+      nextErrors = validate ? { ...(await validate(values)) } : {};
+    } catch (error) {
+      setErrors({}, toAppError(error).userMessage);
+      return;
+    }
+    fields.forEach((field, index) => {
+      nextErrors[field] = nextErrors[field] ?? fieldMessages[index];
+    });
+
+    const hasErrors = fields.some(field => nextErrors[field] !== undefined);
+    setErrors(nextErrors);
+    if (hasErrors) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(values);
+    } catch (error) {
+      // Server-side validation lands on the fields; anything else becomes the form error
+      const { fieldErrors, formError: submitError } = mapServerErrors(error, Object.keys(values) as Array<keyof T>, fieldAliases);
+      setErrors(fieldErrors, submitError);
+    } finally {
+      setSubmitting(false);
+    }
+  }, [values, validate, validateField, onSubmit, setErrors, fieldAliases]);
+
+  const reset = useCallback((next: T = initialRef.current) => {
+    initialRef.current = next;
+    setValues(next);
+    setErrorState({});
+    setFormError(null);
+    setTouched({});
+  }, []);
+
+  const dirty = useMemo(() => {
+    const flags: FieldFlags<T> = {};
+    (Object.keys(values) as Array<keyof T>).forEach(field => {
+      flags[field] = !Object.is(values[field], initialRef.current[field]);
+    });
+    return flags;
+  }, [values]);
+
+  return {
+    values,
+    errors,
+    formError,
+    touched,
+    dirty,
+    isDirty: Object.values(dirty).some(Boolean),
+    isValid: Object.values(errors).every(message => message === undefined),
+    isSubmitting,
+    setValue,
+    setErrors,
+    register,
+    handleSubmit,
+    reset,
+  };
+}
+
+// Usage with the LoginForm model
+const LoginScreen: React.FC = () => {
+  const { values, errors, touched, formError, isSubmitting, register, setValue, handleSubmit } = useForm<LoginForm>({
+    initialValues: { email: '', password: '', rememberMe: false },
+    validators: {
+      email: value => (/^[^\s@]+@[^\s@]+$/.test(value) ? undefined : 'Enter a valid email'),
+      password: value => (value.length >= 8 ? undefined : 'Use at least 8 characters'),
+    },
+    onSubmit: values => login(values),
+  });
+
+  return (
+    <View>
+      <TextInput {...register('email')} keyboardType="email-address" autoCapitalize="none" />
+      {touched.email && errors.email ? <Text>{errors.email}</Text> : null}
+      <TextInput {...register('password')} secureTextEntry />
+      {touched.password && errors.password ? <Text>{errors.password}</Text> : null}
+      <Switch value={values.rememberMe} onValueChange={value => setValue('rememberMe', value)} />
+      {formError ? <Text>{formError}</Text> : null}
+      <Button title="Sign in" onPress={handleSubmit} disabled={isSubmitting} />
+    </View>
+  );
+};
+```
+
+### Mapping Server Errors to Fields
+
+When the backend rejects a submit, map its `ValidationError`s or 422 body back onto the form model. Field names are checked against `keyof T`, and anything that matches no field becomes a form-level error:
+
+```typescript
+import { ApiError, handleError, isApiError, isValidationError } from '../utils/errorHandling';
+
+type FieldAliases<T> = Partial<Record<string, keyof T>>;
+
+interface MappedErrors<T> {
+  fieldErrors: FormErrors<T>;
+  formError: string | null;
+}
+
+interface ServerFieldError {
+  field: string;
+  message: string;
+}
+
+// Matches ValidationError instances as well as plain { field, message } objects
+const isServerFieldError = (value: unknown): value is ServerFieldError =>
+  typeof value === 'object' && value !== null && 'field' in value && 'message' in value &&
+  typeof value.field === 'string' && typeof value.message === 'string';
+
+const firstMessage = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0];
+  return undefined;
+};
+
+// Accepts { errors: { email: 'Taken' } }, { errors: { email: ['Taken'] } } or { errors: [{ field, message }] }
+function readServerErrors(body: unknown): ServerFieldError[] {
+  if (typeof body !== 'object' || body === null || !('errors' in body)) return [];
+  const { errors } = body;
+
+  if (Array.isArray(errors)) {
+    return errors.filter(isServerFieldError).map(({ field, message }) => ({ field, message }));
+  }
+  if (typeof errors === 'object' && errors !== null) {
+    return Object.entries(errors).flatMap(([field, value]) => {
+      const message = firstMessage(value);
+      return message ? [{ field, message }] : [];
+    });
+  }
+  return [];
+}
+
+function mapServerErrors<T extends object>(
+  error: unknown,
+  fields: ReadonlyArray<keyof T>,
+  aliases: FieldAliases<T> = {}
+): MappedErrors<T> {
+  let entries: ServerFieldError[];
+  // An empty array would otherwise pass every() and report no errors at all
+  if (Array.isArray(error) && error.length > 0 && error.every(isServerFieldError)) {
+    entries = error.map(({ field, message }) => ({ field, message }));
+  } else if (isValidationError(error)) {
+    entries = [{ field: error.field, message: error.message }];
+  } else if (isApiError(error) && error.status === 422) {
+    entries = readServerErrors(error.body);
+  } else {
+    return { fieldErrors: {}, formError: handleError(error) };
+  }
+
+  // Schema paths such as 'data.email' fall back to their last segment
+  const resolve = (name: string): keyof T | undefined =>
+    aliases[name] ?? fields.find(field => field === name || field === name.split('.').pop());
+
+  const fieldErrors: FormErrors<T> = {};
+  const unmatched: string[] = [];
+  entries.forEach(({ field, message }) => {
+    const target = resolve(field);
+    if (target === undefined) {
+      unmatched.push(`${field}: ${message}`);
+    } else {
+      fieldErrors[target] = fieldErrors[target] ?? message;
+    }
+  });
+
+  const fallback = entries.length === 0 ? handleError(error) : null;
+  return { fieldErrors, formError: unmatched.length > 0 ? unmatched.join('\n') : fallback };
+}
+
+// Usage outside useForm: aliases must name real LoginForm fields, so a typo fails to compile
+const { fieldErrors, formError } = mapServerErrors<LoginForm>(
+  new ApiError('Unprocessable', 422, { body: { errors: { email_address: ['Already registered'], captcha: 'Required' } } }),
+  ['email', 'password', 'rememberMe'],
+  { email_address: 'email' }
+);
+// fieldErrors: { email: 'Already registered' }, formError: 'captcha: Required'
+```
+
 ## Advanced TypeScript Patterns
 
 ### Generic Components
 
 ```typescript
-// Generic list component
-interface ListProps<T> {
-  items: T[];
-  renderItem: (item: T) => React.ReactNode;
-  keyExtractor: (item: T) => string;
+// Generic list component, virtualized so only the visible window is rendered
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, FlatList, SectionList, Text, TouchableOpacity, View } from 'react-native';
+
+// H is the typed data each section header renders
+interface ListSection<T, H> {
+  key: string;
+  header: H;
+  data: T[];
 }
 
-function List<T>({ items, renderItem, keyExtractor }: ListProps<T>) {
+// Plain items, or a LoadingState that drives loading, error and pagination
+type ListSource<T> =
+  | { items: T[]; state?: never }
+  | { state: LoadingState<T[]>; items?: never };
+
+type ListProps<T, H = never> = ListSource<T> & {
+  renderItem: (item: T, index: number) => React.ReactNode;
+  keyExtractor: (item: T) => string;
+  groupBy?: (items: T[]) => ListSection<T, H>[];
+  renderSectionHeader?: (header: H) => React.ReactNode;
+  // Called near the end of the list while hasMore is true and nothing is loading
+  onEndReached?: () => void;
+  hasMore?: boolean;
+  onRefresh?: () => void;
+  refreshing?: boolean;
+  renderEmpty?: () => React.ReactNode;
+  renderError?: (error: string, retry?: () => void) => React.ReactNode;
+  // Fixed row height lets the list skip measuring rows
+  itemHeight?: number;
+};
+
+const defaultRenderError = (error: string, retry?: () => void) => (
+  <View style={{ padding: 16, alignItems: 'center' }}>
+    <Text>{error}</Text>
+    {retry ? (
+      <TouchableOpacity onPress={retry}>
+        <Text>Retry</Text>
+      </TouchableOpacity>
+    ) : null}
+  </View>
+);
+
+function List<T, H = never>(props: ListProps<T, H>) {
+  const {
+    renderItem,
+    keyExtractor,
+    groupBy,
+    renderSectionHeader,
+    onEndReached,
+    hasMore = false,
+    onRefresh,
+    refreshing = false,
+    renderEmpty = () => <Text>Nothing here yet</Text>,
+    renderError = defaultRenderError,
+    itemHeight,
+  } = props;
+  const items = props.state ? props.state.data ?? [] : props.items;
+  const loading = props.state?.loading ?? false;
+  const error = props.state?.error ?? null;
+
+  // Which load the current error belongs to, so retry repeats that one
+  const [lastLoad, setLastLoad] = useState<'refresh' | 'page'>('page');
+  useEffect(() => {
+    if (refreshing) setLastLoad('refresh');
+  }, [refreshing]);
+
+  const handleRefresh = useMemo(() => onRefresh && (() => {
+    setLastLoad('refresh');
+    onRefresh();
+  }), [onRefresh]);
+
+  // FlatList can fire onEndReached repeatedly for the same page; allow one call per page
+  const requestedAt = useRef(-1);
+  useEffect(() => {
+    if (!loading) requestedAt.current = -1;
+  }, [items.length, loading]);
+
+  const handleEndReached = useCallback(() => {
+    if (!onEndReached || !hasMore || loading || error || requestedAt.current === items.length) return;
+    requestedAt.current = items.length;
+    setLastLoad('page');
+    onEndReached();
+  }, [onEndReached, hasMore, loading, error, items.length]);
+
+  // A pull-to-refresh already shows the RefreshControl, so the other spinners stay hidden
+  const showSpinner = loading && !refreshing;
+
+  if (items.length === 0) {
+    if (showSpinner) return <ActivityIndicator style={{ padding: 16 }} />;
+    if (error) return <>{renderError(error, handleRefresh)}</>;
+  }
+
+  // Footer covers the next page: a spinner while it loads, an inline retry if it fails
+  const footer = showSpinner
+    ? <ActivityIndicator style={{ padding: 16 }} />
+    : error
+      ? <>{renderError(error, lastLoad === 'refresh' ? handleRefresh : onEndReached)}</>
+      : null;
+
+  const sharedProps = {
+    onEndReached: handleEndReached,
+    onEndReachedThreshold: 0.5,
+    onRefresh: handleRefresh,
+    refreshing,
+    ListEmptyComponent: <>{renderEmpty()}</>,
+    ListFooterComponent: footer,
+    windowSize: 7,
+    removeClippedSubviews: true,
+  };
+
+  if (groupBy) {
+    return (
+      <SectionList
+        {...sharedProps}
+        sections={groupBy(items)}
+        keyExtractor={keyExtractor}
+        renderItem={({ item, index }) => <View>{renderItem(item, index)}</View>}
+        renderSectionHeader={({ section }) => <>{renderSectionHeader?.(section.header)}</>}
+        stickySectionHeadersEnabled
+      />
+    );
+  }
+
   return (
-    <ScrollView>
-      {items.map(item => (
-        <View key={keyExtractor(item)}>
-          {renderItem(item)}
-        </View>
-      ))}
-    </ScrollView>
+    <FlatList
+      {...sharedProps}
+      data={items}
+      keyExtractor={keyExtractor}
+      renderItem={({ item, index }) => <View>{renderItem(item, index)}</View>}
+      getItemLayout={itemHeight ? (_, index) => ({ length: itemHeight, offset: itemHeight * index, index }) : undefined}
+    />
   );
 }
 
@@ -415,27 +1891,28 @@ function List<T>({ items, renderItem, keyExtractor }: ListProps<T>) {
   renderItem={(user) => <Text>{user.name}</Text>}
   keyExtractor={(user) => user.id}
 />
+
+// Paginated and grouped by first letter, driven by a LoadingState<User[]>
+<List
+  state={usersState}
+  hasMore={hasMorePages}
+  onEndReached={loadNextPage}
+  onRefresh={refetch}
+  refreshing={usersState.loading && page === 1}
+  keyExtractor={(user) => user.id}
+  renderItem={(user) => <Text>{user.name}</Text>}
+  groupBy={(users) => groupByInitial(users)}
+  renderSectionHeader={(letter) => <Text>{letter}</Text>}
+/>
 ```
 
 ### Type Guards
 
 ```typescript
-// Type definitions
-interface PhotoMedia {
-  type: 'photo';
-  uri: string;
-  width: number;
-  height: number;
-}
-
-interface VideoMedia {
-  type: 'video';
-  uri: string;
-  duration: number;
-  thumbnail: string;
-}
-
-type Media = PhotoMedia | VideoMedia;
+import { useTranslation } from '../context/I18nContext';
+import { I18n } from '../i18n';
+// PhotoMedia, VideoMedia, AudioMedia and DocumentMedia live in types/index.ts, so fixtures share them
+import { AudioMedia, DocumentMedia, Media, PhotoMedia, VideoMedia } from '../types';
 
 // Type guard functions
 function isPhoto(media: Media): media is PhotoMedia {
@@ -446,22 +1923,117 @@ function isVideo(media: Media): media is VideoMedia {
   return media.type === 'video';
 }
 
+function isAudio(media: Media): media is AudioMedia {
+  return media.type === 'audio';
+}
+
+function isDocument(media: Media): media is DocumentMedia {
+  return media.type === 'document';
+}
+
+// Width / height; kinds without their own dimensions get a fixed frame
+function aspectRatio(media: Media): number {
+  switch (media.type) {
+    case 'photo':
+      return media.height > 0 ? media.width / media.height : 1;
+    case 'video':
+      return 16 / 9;
+    case 'audio':
+      return 1;
+    case 'document':
+      return 3 / 4;
+    default: {
+      // Exhaustiveness check
+      const _exhaustiveCheck: never = media;
+      return _exhaustiveCheck;
+    }
+  }
+}
+
+// What screen readers announce for an item, in the active locale; durations are spelled out
+function describeMedia(media: Media, { t, formatDuration }: Pick<I18n, 't' | 'formatDuration'>): string {
+  switch (media.type) {
+    case 'photo':
+      return media.alt;
+    case 'video':
+      return t('media.video', { duration: formatDuration(media.duration, 'long') });
+    case 'audio':
+      return t('media.audio', { title: media.title, duration: formatDuration(media.duration, 'long') });
+    case 'document':
+      return media.pageCount !== undefined
+        ? t('media.documentPages', { name: media.name, count: media.pageCount })
+        : media.name;
+    default: {
+      // Exhaustiveness check
+      const _exhaustiveCheck: never = media;
+      return _exhaustiveCheck;
+    }
+  }
+}
+
+// Largest size with the media's aspect ratio that fits the box
+function fitMedia(media: Media, box: { width: number; height?: number }): { width: number; height: number } {
+  const ratio = aspectRatio(media);
+  const width = box.height === undefined ? box.width : Math.min(box.width, box.height * ratio);
+  return { width, height: width / ratio };
+}
+
+interface MediaItemProps {
+  media: Media;
+  // Without a width, photos keep their natural size
+  width?: number;
+  maxHeight?: number;
+}
+
 // Usage in component
-const MediaItem: React.FC<{ media: Media }> = ({ media }) => {
+const MediaItem: React.FC<MediaItemProps> = ({ media, width, maxHeight }) => {
+  const i18n = useTranslation();
+  const size = fitMedia(media, {
+    width: width ?? (isPhoto(media) ? media.width : 320),
+    height: maxHeight,
+  });
+
   if (isPhoto(media)) {
     return (
       <Image
         source={{ uri: media.uri }}
-        style={{ width: media.width, height: media.height }}
+        style={size}
+        accessibilityRole="image"
+        accessibilityLabel={media.alt}
       />
     );
   }
   
   if (isVideo(media)) {
     return (
-      <View>
-        <Image source={{ uri: media.thumbnail }} />
-        <Text>Duration: {media.duration}s</Text>
+      <View style={size} accessible accessibilityRole="image" accessibilityLabel={describeMedia(media, i18n)}>
+        <Image source={{ uri: media.thumbnail }} style={StyleSheet.absoluteFill} />
+        <Text style={{ position: 'absolute', right: 4, bottom: 4, color: 'white' }}>
+          {i18n.formatDuration(media.duration)}
+        </Text>
+      </View>
+    );
+  }
+
+  if (isAudio(media)) {
+    return (
+      <View style={[size, { alignItems: 'center', justifyContent: 'center' }]} accessible accessibilityLabel={describeMedia(media, i18n)}>
+        {media.artwork ? <Image source={{ uri: media.artwork }} style={StyleSheet.absoluteFill} /> : null}
+        <Text numberOfLines={1}>{media.title}</Text>
+        <Text>{i18n.formatDuration(media.duration)}</Text>
+      </View>
+    );
+  }
+
+  if (isDocument(media)) {
+    return (
+      <View
+        style={[size, { alignItems: 'center', justifyContent: 'center', borderWidth: 1 }]}
+        accessible
+        accessibilityLabel={describeMedia(media, i18n)}
+      >
+        <Text numberOfLines={2}>{media.name}</Text>
+        {media.pageCount !== undefined ? <Text>{i18n.t('media.pages', { count: media.pageCount })}</Text> : null}
       </View>
     );
   }
@@ -472,6 +2044,154 @@ const MediaItem: React.FC<{ media: Media }> = ({ media }) => {
 };
 ```
 
+### Media Gallery
+
+The grid and the fullscreen pager are built on `MediaItem` alone, so a new media kind only needs a branch there:
+
+```typescript
+import { useState } from 'react';
+import { FlatList, Modal, Pressable, Text, useWindowDimensions, View } from 'react-native';
+
+const mediaKey = (media: Media): string => `${media.type}:${media.uri}`;
+
+interface MediaGridProps {
+  items: Media[];
+  columns?: number;
+  gap?: number;
+  onPress?: (media: Media, index: number) => void;
+}
+
+// Square tiles sized from the screen width; each item is fitted inside its tile
+const MediaGrid: React.FC<MediaGridProps> = ({ items, columns = 3, gap = 2, onPress }) => {
+  const { width } = useWindowDimensions();
+  const i18n = useTranslation();
+  const tile = (width - gap * (columns - 1)) / columns;
+
+  return (
+    <FlatList
+      // FlatList cannot change numColumns on the fly, so remount instead
+      key={columns}
+      data={items}
+      numColumns={columns}
+      keyExtractor={mediaKey}
+      columnWrapperStyle={columns > 1 ? { gap } : undefined}
+      contentContainerStyle={{ gap }}
+      renderItem={({ item, index }) => (
+        <Pressable
+          onPress={() => onPress?.(item, index)}
+          style={{ width: tile, height: tile, alignItems: 'center', justifyContent: 'center', overflow: 'hidden' }}
+          accessibilityRole="button"
+          accessibilityLabel={describeMedia(item, i18n)}
+          accessibilityHint={i18n.t('media.openHint')}
+        >
+          <MediaItem media={item} width={tile} maxHeight={tile} />
+        </Pressable>
+      )}
+    />
+  );
+};
+
+interface MediaPagerProps {
+  items: Media[];
+  initialIndex?: number;
+  onIndexChange?: (index: number) => void;
+}
+
+// One screen-wide page per item, each fitted to the screen without cropping
+const MediaPager: React.FC<MediaPagerProps> = ({ items, initialIndex = 0, onIndexChange }) => {
+  const { width, height } = useWindowDimensions();
+  const [index, setIndex] = useState(initialIndex);
+
+  return (
+    <View style={{ flex: 1, backgroundColor: 'black' }}>
+      <FlatList
+        data={items}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        keyExtractor={mediaKey}
+        initialScrollIndex={initialIndex}
+        // Pages have a known width, so starting at initialIndex needs no measuring
+        getItemLayout={(_, page) => ({ length: width, offset: width * page, index: page })}
+        onMomentumScrollEnd={(event) => {
+          const page = Math.round(event.nativeEvent.contentOffset.x / width);
+          if (page !== index) {
+            setIndex(page);
+            onIndexChange?.(page);
+          }
+        }}
+        renderItem={({ item }) => (
+          <View style={{ width, height, alignItems: 'center', justifyContent: 'center' }}>
+            <MediaItem media={item} width={width} maxHeight={height} />
+          </View>
+        )}
+      />
+      <Text style={{ position: 'absolute', top: 48, alignSelf: 'center', color: 'white' }}>
+        {index + 1} / {items.length}
+      </Text>
+    </View>
+  );
+};
+
+// Grid that opens the tapped item in a fullscreen pager
+const MediaGallery: React.FC<{ items: Media[]; columns?: number }> = ({ items, columns }) => {
+  const { t } = useTranslation();
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const close = () => setOpenIndex(null);
+
+  return (
+    <>
+      <MediaGrid items={items} columns={columns} onPress={(_, index) => setOpenIndex(index)} />
+      <Modal visible={openIndex !== null} animationType="fade" onRequestClose={close}>
+        {openIndex !== null ? <MediaPager items={items} initialIndex={openIndex} /> : null}
+        <Pressable
+          onPress={close}
+          style={{ position: 'absolute', top: 40, right: 16, padding: 8 }}
+          accessibilityRole="button"
+          hitSlop={8}
+        >
+          <Text style={{ color: 'white' }}>{t('common.close')}</Text>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+// Usage
+<MediaGallery
+  columns={3}
+  items={[
+    { type: 'photo', uri: 'https://example.com/beach.jpg', width: 4032, height: 3024, alt: 'Sunset over the beach' },
+    { type: 'video', uri: 'https://example.com/clip.mp4', duration: 75, thumbnail: 'https://example.com/clip.jpg' },
+    { type: 'audio', uri: 'https://example.com/memo.m4a', duration: 3725, title: 'Voice memo' },
+    { type: 'document', uri: 'https://example.com/terms.pdf', name: 'Terms.pdf', pageCount: 12 },
+  ]}
+/>
+```
+
+Media fixtures come from `testing/fixtures`, one factory per kind, so every fixture is a valid member of the union:
+
+```typescript
+import { fireEvent } from '@testing-library/react-native';
+import { createAudio, createDocument, createMedia, createPhoto, createVideo } from '../testing/fixtures';
+import { renderWithProviders } from '../testing/renderWithProviders';
+
+it('opens the pager on the pressed item', () => {
+  const items: Media[] = [createPhoto({ alt: 'Beach' }), createVideo(), createAudio(), createDocument()];
+  const { getByRole, getByText } = renderWithProviders(<MediaGallery items={items} />);
+
+  fireEvent.press(getByRole('button', { name: 'Beach' }));
+
+  expect(getByText('1 / 4')).toBeTruthy();
+});
+
+it('announces the page count of a document', () => {
+  const { getByText } = renderWithProviders(<MediaGallery items={[createMedia('document', { pageCount: 2 })]} />);
+
+  expect(getByText('2 pages')).toBeTruthy();
+});
+```
+
 ## Best Practices and Tips
 
 1. **Use strict mode** in tsconfig.json
@@ -46,32 +46,40 @@ export default BestPracticeComponent;
 BestPracticeComponent.tsx
 Use React.PropsWithChildren for Components with Children
 import React from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ThemeSpacing } from '../theme/tokens';
+import { createThemedStyles } from '../theme/createThemedStyles';
 
 interface ContainerProps {
-  padding?: number;
+  // A spacing token, or raw points for existing callers such as padding={16}
+  padding?: number | keyof ThemeSpacing;
   backgroundColor?: string;
 }
 
+const useStyles = createThemedStyles(theme => ({
+  container: {
+    flex: 1,
+    borderRadius: theme.radii.md,
+    backgroundColor: theme.colors.background,
+  }
+}));
+
 const Container: React.FC<React.PropsWithChildren<ContainerProps>> = ({
   children,
-  padding = 16,
-  backgroundColor = '#ffffff'
+  padding = 'md',
+  backgroundColor
 }) => {
+  const styles = useStyles();
+  const { spacing } = useTheme().tokens;
+
   return (
-    <View style={[styles.container, { padding, backgroundColor }]}>
+    <View style={[styles.container, { padding: typeof padding === 'number' ? padding : spacing[padding] }, backgroundColor ? { backgroundColor } : null]}>
       {children}
     </View>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    borderRadius: 8,
-  }
-});
-
 export default Container;
 
 Container.tsx
@@ -79,6 +87,8 @@ Type Organization
 Create a Types Directory
 Organize your types in a dedicated directory:
 
+import { ReactNode } from 'react';
+
 // User related types
 export interface User {
   id: string;
@@ -102,13 +112,60 @@ export interface ApiResponse<T> {
 }
 
 // Common UI component props
+export type ButtonVariant = 'primary' | 'secondary' | 'outline';
+export type ButtonSize = 'sm' | 'md' | 'lg';
+
 export interface ButtonProps {
   title: string;
   onPress: () => void;
   disabled?: boolean;
-  variant?: 'primary' | 'secondary' | 'outline';
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+  // Shows a spinner and ignores presses while keeping the button's width
+  loading?: boolean;
+  leftIcon?: ReactNode;
+  rightIcon?: ReactNode;
+  fullWidth?: boolean;
+  // Defaults to title; override when the title is ambiguous out of context, e.g. 'Delete'
+  accessibilityLabel?: string;
+  accessibilityHint?: string;
+}
+
+// Media items, discriminated by type
+export interface PhotoMedia {
+  type: 'photo';
+  uri: string;
+  width: number;
+  height: number;
+  // Required so no photo is announced as just "image"
+  alt: string;
+}
+
+export interface VideoMedia {
+  type: 'video';
+  uri: string;
+  duration: number;
+  thumbnail: string;
 }
 
+export interface AudioMedia {
+  type: 'audio';
+  uri: string;
+  duration: number;
+  title: string;
+  artwork?: string;
+}
+
+export interface DocumentMedia {
+  type: 'document';
+  uri: string;
+  name: string;
+  pageCount?: number;
+}
+
+// A new kind added here fails to compile until every exhaustiveness check handles it
+export type Media = PhotoMedia | VideoMedia | AudioMedia | DocumentMedia;
+
 index.ts
 Use Barrel Exports
 Create index files to simplify imports:
@@ -117,15 +174,384 @@ export { default as Button } from './Button';
 export { default as Card } from './Card';
 export { default as Header } from './Header';
 export { default as UserAvatar } from './UserAvatar';
+export { default as Container } from './Container';
+export { default as Stack, Spacer } from './Stack';
 
 index.ts
+Component Library
+Build Themed Components Behind the Barrel
+Key variant and size styles by their union types, so adding a variant without styling it is a compile error:
+
+import React from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { createThemedStyles } from '../theme/createThemedStyles';
+import { ThemeColors } from '../theme/tokens';
+import { ButtonProps, ButtonVariant } from '../types';
+
+interface VariantColors {
+  background: string;
+  border: string;
+  label: string;
+}
+
+// Record<ButtonVariant, ...> requires an entry for every variant
+const variantColors = (colors: ThemeColors): Record<ButtonVariant, VariantColors> => ({
+  primary: { background: colors.primary, border: colors.primary, label: colors.onPrimary },
+  secondary: { background: colors.secondary, border: colors.secondary, label: colors.onPrimary },
+  outline: { background: 'transparent', border: colors.primary, label: colors.primary }
+});
+
+// styles[size] and styles[`${size}Label`] only compile while every ButtonSize has both
+const useStyles = createThemedStyles(theme => ({
+  base: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: theme.radii.md
+  },
+  content: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.xs },
+  fullWidth: { alignSelf: 'stretch' },
+  disabled: { opacity: 0.5 },
+  hidden: { opacity: 0 },
+  spinner: { position: 'absolute' },
+  sm: { minHeight: 32, paddingHorizontal: theme.spacing.sm },
+  md: { minHeight: 44, paddingHorizontal: theme.spacing.md },
+  lg: { minHeight: 52, paddingHorizontal: theme.spacing.lg },
+  smLabel: { ...theme.typography.caption, fontWeight: '600' },
+  mdLabel: { ...theme.typography.body, fontWeight: '600' },
+  lgLabel: { ...theme.typography.subtitle, fontWeight: '600' }
+}));
+
+const Button: React.FC<ButtonProps> = ({
+  title,
+  onPress,
+  disabled = false,
+  variant = 'primary',
+  size = 'md',
+  loading = false,
+  leftIcon,
+  rightIcon,
+  fullWidth = false,
+  accessibilityLabel = title,
+  accessibilityHint
+}) => {
+  const styles = useStyles();
+  const colors = variantColors(useTheme().colors)[variant];
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={disabled || loading}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityHint={accessibilityHint}
+      accessibilityState={{ disabled: disabled || loading, busy: loading }}
+      style={[
+        styles.base,
+        styles[size],
+        { backgroundColor: colors.background, borderColor: colors.border },
+        fullWidth && styles.fullWidth,
+        disabled && styles.disabled
+      ]}
+    >
+      <View style={[styles.content, loading && styles.hidden]}>
+        {leftIcon}
+        <Text style={[styles[`${size}Label`], { color: colors.label }]}>{title}</Text>
+        {rightIcon}
+      </View>
+      {loading ? <ActivityIndicator style={styles.spinner} color={colors.label} /> : null}
+    </TouchableOpacity>
+  );
+};
+
+export default Button;
+
+Button.tsx
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { createThemedStyles } from '../theme/createThemedStyles';
+import { ThemeSpacing } from '../theme/tokens';
+
+export type CardVariant = 'elevated' | 'outlined' | 'filled';
+
+interface CardBaseProps {
+  variant?: CardVariant;
+  padding?: keyof ThemeSpacing;
+  title?: string;
+  subtitle?: string;
+  // Rendered next to the title, e.g. an icon button
+  action?: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
+// A pressable card is announced as one button, so it needs a title or an explicit label
+type CardPressProps =
+  | { onPress?: undefined; accessibilityLabel?: string }
+  | { onPress: () => void; title: string; accessibilityLabel?: string }
+  | { onPress: () => void; accessibilityLabel: string };
+
+type CardProps = CardBaseProps & CardPressProps;
+
+const useStyles = createThemedStyles(theme => ({
+  card: { borderRadius: theme.radii.lg },
+  elevated: { backgroundColor: theme.colors.background, ...theme.elevation.medium },
+  outlined: { backgroundColor: theme.colors.background, borderWidth: 1, borderColor: theme.colors.border },
+  filled: { backgroundColor: theme.colors.surface },
+  header: { flexDirection: 'row', alignItems: 'center', gap: theme.spacing.sm, marginBottom: theme.spacing.sm },
+  titles: { flex: 1 },
+  title: { ...theme.typography.subtitle, color: theme.colors.text },
+  subtitle: { ...theme.typography.caption, color: theme.colors.text, opacity: 0.7 },
+  footer: { marginTop: theme.spacing.md }
+}));
+
+const Card: React.FC<React.PropsWithChildren<CardProps>> = ({
+  children,
+  variant = 'elevated',
+  padding = 'md',
+  title,
+  subtitle,
+  action,
+  footer,
+  onPress,
+  accessibilityLabel = title
+}) => {
+  const styles = useStyles();
+  const { spacing } = useTheme().tokens;
+  const style = [styles.card, styles[variant], { padding: spacing[padding] }];
+
+  const content = (
+    <>
+      {title || action ? (
+        <View style={styles.header}>
+          <View style={styles.titles}>
+            {title ? <Text style={styles.title}>{title}</Text> : null}
+            {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
+          </View>
+          {action}
+        </View>
+      ) : null}
+      {children}
+      {footer ? <View style={styles.footer}>{footer}</View> : null}
+    </>
+  );
+
+  return onPress ? (
+    <TouchableOpacity
+      style={style}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+    >
+      {content}
+    </TouchableOpacity>
+  ) : (
+    <View style={style}>{content}</View>
+  );
+};
+
+export default Card;
+
+Card.tsx
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { createThemedStyles } from '../theme/createThemedStyles';
+
+export type HeaderSize = 'regular' | 'large';
+
+interface HeaderProps {
+  title: string;
+  subtitle?: string;
+  size?: HeaderSize;
+  // Slots for a back button, menu or actions
+  left?: React.ReactNode;
+  right?: React.ReactNode;
+}
+
+const useStyles = createThemedStyles(theme => ({
+  container: {
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.border
+  },
+  bar: { flexDirection: 'row', alignItems: 'center', minHeight: 44 },
+  side: { minWidth: 44, flexDirection: 'row', alignItems: 'center' },
+  right: { justifyContent: 'flex-end' },
+  center: { flex: 1, alignItems: 'center' },
+  regularTitle: { ...theme.typography.subtitle, color: theme.colors.text },
+  largeTitle: { ...theme.typography.headline, color: theme.colors.text },
+  subtitle: { ...theme.typography.caption, color: theme.colors.text, opacity: 0.7 }
+}));
+
+// 'regular' centers the title between the slots, 'large' puts it below them
+const Header: React.FC<HeaderProps> = ({ title, subtitle, size = 'regular', left, right }) => {
+  const styles = useStyles();
+
+  const titles = (
+    <>
+      <Text style={styles[`${size}Title`]} numberOfLines={1} accessibilityRole="header">{title}</Text>
+      {subtitle ? <Text style={styles.subtitle} numberOfLines={1}>{subtitle}</Text> : null}
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        <View style={styles.side}>{left}</View>
+        <View style={styles.center}>{size === 'regular' ? titles : null}</View>
+        <View style={[styles.side, styles.right]}>{right}</View>
+      </View>
+      {size === 'large' ? titles : null}
+    </View>
+  );
+};
+
+export default Header;
+
+Header.tsx
+import React, { useEffect, useState } from 'react';
+import { Image, Text, View } from 'react-native';
+import { createThemedStyles } from '../theme/createThemedStyles';
+import { User } from '../types';
+
+export type AvatarSize = 'sm' | 'md' | 'lg' | 'xl';
+
+const avatarSizes: Record<AvatarSize, number> = { sm: 24, md: 40, lg: 56, xl: 96 };
+
+interface UserAvatarProps {
+  user: Pick<User, 'name'>;
+  imageUrl?: string;
+  size?: AvatarSize;
+  // Drawn over the bottom-right edge, e.g. an online indicator
+  badge?: React.ReactNode;
+  // Defaults to the user's name; include what the badge means if it matters
+  accessibilityLabel?: string;
+}
+
+const useStyles = createThemedStyles(theme => ({
+  fallback: { alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.secondary },
+  initials: { color: theme.colors.onPrimary, fontWeight: '600' },
+  badge: { position: 'absolute', right: 0, bottom: 0 }
+}));
+
+const getInitials = (name: string): string =>
+  name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?';
+
+// Falls back to initials without an image or when the image fails to load
+const UserAvatar: React.FC<UserAvatarProps> = ({
+  user,
+  imageUrl,
+  size = 'md',
+  badge,
+  accessibilityLabel = user.name
+}) => {
+  const styles = useStyles();
+  const [failed, setFailed] = useState(false);
+  const dimension = avatarSizes[size];
+  const frame = { width: dimension, height: dimension, borderRadius: dimension / 2 };
+
+  useEffect(() => {
+    setFailed(false);
+  }, [imageUrl]);
+
+  // One element for screen readers instead of an unlabeled image plus initials
+  return (
+    <View style={frame} accessible accessibilityRole="image" accessibilityLabel={accessibilityLabel}>
+      {imageUrl && !failed ? (
+        <Image source={{ uri: imageUrl }} style={frame} onError={() => setFailed(true)} />
+      ) : (
+        <View style={[frame, styles.fallback]}>
+          <Text style={[styles.initials, { fontSize: dimension * 0.4 }]}>{getInitials(user.name)}</Text>
+        </View>
+      )}
+      {badge ? <View style={styles.badge}>{badge}</View> : null}
+    </View>
+  );
+};
+
+export default UserAvatar;
+
+UserAvatar.tsx
+import React from 'react';
+import { FlexStyle, StyleProp, View, ViewStyle } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { ThemeSpacing } from '../theme/tokens';
+
+interface StackProps {
+  direction?: 'row' | 'column';
+  gap?: keyof ThemeSpacing;
+  padding?: keyof ThemeSpacing;
+  align?: FlexStyle['alignItems'];
+  justify?: FlexStyle['justifyContent'];
+  wrap?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Spacing comes from the theme scale, so screens never hard-code margins between children
+const Stack: React.FC<React.PropsWithChildren<StackProps>> = ({
+  children,
+  direction = 'column',
+  gap = 'sm',
+  padding,
+  align,
+  justify,
+  wrap = false,
+  style
+}) => {
+  const { spacing } = useTheme().tokens;
+
+  return (
+    <View
+      style={[
+        {
+          flexDirection: direction,
+          gap: spacing[gap],
+          padding: padding ? spacing[padding] : undefined,
+          alignItems: align,
+          justifyContent: justify,
+          flexWrap: wrap ? 'wrap' : 'nowrap'
+        },
+        style
+      ]}
+    >
+      {children}
+    </View>
+  );
+};
+
+// Fixed space from the scale, or all remaining space without a size
+export const Spacer: React.FC<{ size?: keyof ThemeSpacing }> = ({ size }) => {
+  const { spacing } = useTheme().tokens;
+  return <View style={size ? { width: spacing[size], height: spacing[size] } : { flex: 1 }} />;
+};
+
+export default Stack;
+
+Stack.tsx
 State Management
 Type Redux Store and Actions
 // Action types
 export enum ActionTypes {
   ADD_TODO = 'ADD_TODO',
   TOGGLE_TODO = 'TOGGLE_TODO',
-  REMOVE_TODO = 'REMOVE_TODO'
+  REMOVE_TODO = 'REMOVE_TODO',
+  LOAD_TODOS_PENDING = 'LOAD_TODOS_PENDING',
+  LOAD_TODOS_FULFILLED = 'LOAD_TODOS_FULFILLED',
+  LOAD_TODOS_REJECTED = 'LOAD_TODOS_REJECTED',
+  SAVE_TODOS_PENDING = 'SAVE_TODOS_PENDING',
+  SAVE_TODOS_FULFILLED = 'SAVE_TODOS_FULFILLED',
+  SAVE_TODOS_REJECTED = 'SAVE_TODOS_REJECTED'
 }
 
 export interface Todo {
@@ -138,6 +564,7 @@ export interface Todo {
 export interface AddTodoAction {
   type: ActionTypes.ADD_TODO;
   payload: {
+    id: string;
     text: string;
   };
 }
@@ -156,239 +583,3723 @@ export interface RemoveTodoAction {
   };
 }
 
+// Async lifecycle actions; requestId ties each result to the request that started it
+export interface AsyncMeta {
+  requestId: string;
+}
+
+export interface LoadTodosPendingAction {
+  type: ActionTypes.LOAD_TODOS_PENDING;
+  meta: AsyncMeta;
+}
+
+export interface LoadTodosFulfilledAction {
+  type: ActionTypes.LOAD_TODOS_FULFILLED;
+  payload: {
+    todos: Todo[];
+  };
+  meta: AsyncMeta;
+}
+
+export interface LoadTodosRejectedAction {
+  type: ActionTypes.LOAD_TODOS_REJECTED;
+  payload: {
+    error: string;
+    // Cancelled requests end the pending state without showing an error
+    cancelled: boolean;
+  };
+  meta: AsyncMeta;
+}
+
+export interface SaveTodosPendingAction {
+  type: ActionTypes.SAVE_TODOS_PENDING;
+  meta: AsyncMeta;
+}
+
+export interface SaveTodosFulfilledAction {
+  type: ActionTypes.SAVE_TODOS_FULFILLED;
+  meta: AsyncMeta;
+}
+
+export interface SaveTodosRejectedAction {
+  type: ActionTypes.SAVE_TODOS_REJECTED;
+  payload: {
+    error: string;
+    cancelled: boolean;
+  };
+  meta: AsyncMeta;
+}
+
+export type TodoAsyncActions =
+  | LoadTodosPendingAction
+  | LoadTodosFulfilledAction
+  | LoadTodosRejectedAction
+  | SaveTodosPendingAction
+  | SaveTodosFulfilledAction
+  | SaveTodosRejectedAction;
+
 // Union type for all actions
-export type TodoActions = AddTodoAction | ToggleTodoAction | RemoveTodoAction;
+export type TodoActions = AddTodoAction | ToggleTodoAction | RemoveTodoAction | TodoAsyncActions;
 
 // State interface
 export interface TodoState {
   todos: Todo[];
+  // Tracked per operation so a finished save cannot hide a load still in flight
   loading: boolean;
+  saving: boolean;
   error: string | null;
 }
 
-// Root state interface
-export interface RootState {
-  todo: TodoState;
-  // Add other state slices here
-}
-
 types.ts
-Type Context API
-import React, { createContext, useContext, useState } from 'react';
+Type Action Creators
+Create typed action creators so ids are generated outside the reducer, keeping it pure:
 
-type Theme = 'light' | 'dark' | 'system';
+import { ActionTypes, AddTodoAction, RemoveTodoAction, ToggleTodoAction } from './types';
 
-interface ThemeColors {
-  background: string;
-  text: string;
-  primary: string;
-  secondary: string;
-}
+let sequence = 0;
 
-interface ThemeContextType {
-  theme: Theme;
-  colors: ThemeColors;
-  setTheme: (theme: Theme) => void;
-}
+// Unique within a session without pulling in a uuid dependency
+const createTodoId = (): string => `${Date.now().toString(36)}-${(sequence++).toString(36)}`;
 
-const defaultColors: Record<Theme, ThemeColors> = {
-  light: {
-    background: '#FFFFFF',
-    text: '#000000',
-    primary: '#007AFF',
-    secondary: '#5856D6'
-  },
-  dark: {
-    background: '#000000',
-    text: '#FFFFFF',
-    primary: '#0A84FF',
-    secondary: '#5E5CE6'
-  },
-  system: {
-    background: '#FFFFFF',
-    text: '#000000',
-    primary: '#007AFF',
-    secondary: '#5856D6'
-  }
-};
+export const addTodo = (text: string): AddTodoAction => ({
+  type: ActionTypes.ADD_TODO,
+  payload: { id: createTodoId(), text }
+});
 
-const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+export const toggleTodo = (id: string): ToggleTodoAction => ({
+  type: ActionTypes.TOGGLE_TODO,
+  payload: { id }
+});
 
-export const ThemeProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
-  const [theme, setTheme] = useState<Theme>('light');
+export const removeTodo = (id: string): RemoveTodoAction => ({
+  type: ActionTypes.REMOVE_TODO,
+  payload: { id }
+});
 
-  const value: ThemeContextType = {
-    theme,
-    colors: defaultColors[theme],
-    setTheme
-  };
+todoActions.ts
+Type Reducers with Exhaustive Checks
+import { ActionTypes, TodoActions, TodoState } from './types';
 
-  return (
-    <ThemeContext.Provider value={value}>
-      {children}
-    </ThemeContext.Provider>
-  );
+export const initialTodoState: TodoState = {
+  todos: [],
+  loading: false,
+  saving: false,
+  error: null
 };
 
-export const useTheme = (): ThemeContextType => {
-  const context = useContext(ThemeContext);
-  if (context === undefined) {
-    throw new Error('useTheme must be used within a ThemeProvider');
+export const todoReducer = (
+  state: TodoState = initialTodoState,
+  action: TodoActions
+): TodoState => {
+  switch (action.type) {
+    case ActionTypes.ADD_TODO:
+      return {
+        ...state,
+        todos: [...state.todos, { id: action.payload.id, text: action.payload.text, completed: false }]
+      };
+    case ActionTypes.TOGGLE_TODO:
+      return {
+        ...state,
+        todos: state.todos.map(todo =>
+          todo.id === action.payload.id ? { ...todo, completed: !todo.completed } : todo
+        )
+      };
+    case ActionTypes.REMOVE_TODO:
+      return {
+        ...state,
+        todos: state.todos.filter(todo => todo.id !== action.payload.id)
+      };
+    case ActionTypes.LOAD_TODOS_PENDING:
+      return { ...state, loading: true, error: null };
+    case ActionTypes.SAVE_TODOS_PENDING:
+      return { ...state, saving: true, error: null };
+    case ActionTypes.LOAD_TODOS_FULFILLED:
+      return { ...state, loading: false, todos: action.payload.todos };
+    case ActionTypes.SAVE_TODOS_FULFILLED:
+      return { ...state, saving: false };
+    case ActionTypes.LOAD_TODOS_REJECTED:
+      return { ...state, loading: false, error: action.payload.cancelled ? state.error : action.payload.error };
+    case ActionTypes.SAVE_TODOS_REJECTED:
+      return { ...state, saving: false, error: action.payload.cancelled ? state.error : action.payload.error };
+    default: {
+      // Exhaustiveness check: a new member of TodoActions without a case fails to compile.
+      // Redux still sends its own init actions here, so return state instead of throwing.
+      const _exhaustiveCheck: never = action;
+      return state;
+    }
   }
-  return context;
 };
 
-ThemeContext.tsx
-Performance Optimization
-Use React.memo with TypeScript
-import React from 'react';
-import { Text } from 'react-native';
+todoReducer.ts
+Type Async Side Effects
+Keep network access behind a transport interface so thunks can run against a mock offline:
 
-interface Props {
-  value: string;
-  onPress?: () => void;
+import { CancelledError } from '../utils/errorHandling';
+import { Todo } from './types';
+
+export interface TodoTransport {
+  loadTodos: (signal: AbortSignal) => Promise<Todo[]>;
+  saveTodos: (todos: Todo[], signal: AbortSignal) => Promise<void>;
 }
 
-const MemoizedComponent = React.memo<Props>(({ value, onPress }) => {
-  return <Text onPress={onPress}>{value}</Text>;
-});
+interface MockTodoTransportOptions {
+  todos?: Todo[];
+  latency?: number;
+  // Called on every request and the returned error thrown, e.g. () => new ApiError('Server error', 500)
+  failWith?: () => unknown;
+}
 
-export default MemoizedComponent;
+// Resolves after the latency unless the signal aborts first, or has already aborted
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new CancelledError('Request aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
 
-MemoizedComponent.tsx
-Type useCallback and useMemo Properly
-import { useCallback, useMemo } from 'react';
+export const createMockTodoTransport = ({
+  todos = [],
+  latency = 0,
+  failWith
+}: MockTodoTransportOptions = {}) => {
+  let stored = [...todos];
 
-interface Item {
-  id: string;
-  name: string;
+  const transport: TodoTransport = {
+    loadTodos: async (signal) => {
+      await wait(latency, signal);
+      if (failWith) throw failWith();
+      return [...stored];
+    },
+    saveTodos: async (next, signal) => {
+      await wait(latency, signal);
+      if (failWith) throw failWith();
+      stored = [...next];
+    }
+  };
+
+  return { transport, getStored: (): Todo[] => stored };
+};
+
+todoTransport.ts
+import { ThunkAction } from 'redux-thunk';
+import { CancelledError, handleError } from '../utils/errorHandling';
+import { HistoryActions } from './history';
+import { ActionTypes, TodoActions } from './types';
+import { TodoTransport } from './todoTransport';
+import type { RootState } from './store';
+
+export interface ThunkExtra {
+  transport: TodoTransport;
+  // Latest in-flight request per operation, aborted when a newer one starts
+  requests: Map<string, AbortController>;
 }
 
-export const useItemHandlers = (items: Item[]) => {
-  // Properly typed callback
-  const handleItemSelect = useCallback((id: string): void => {
-    console.log(`Selected item: ${id}`);
-  }, []);
+export type AppThunk<R = Promise<void>> = ThunkAction<R, RootState, ThunkExtra, TodoActions | HistoryActions>;
 
-  // Properly typed memo
-  const sortedItems = useMemo((): Item[] => {
-    return [...items].sort((a, b) => a.name.localeCompare(b.name));
-  }, [items]);
+let sequence = 0;
+
+// Aborts any earlier request for the same operation and registers the new one
+const startRequest = (requests: ThunkExtra['requests'], operation: string) => {
+  requests.get(operation)?.abort();
+  const controller = new AbortController();
+  const requestId = `${operation}-${++sequence}`;
+  requests.set(operation, controller);
 
   return {
-    handleItemSelect,
-    sortedItems
+    requestId,
+    signal: controller.signal,
+    // A newer request for the same operation owns the state now; an explicit cancel does not supersede
+    isSuperseded: () => requests.get(operation) !== controller,
+    finish: () => {
+      if (requests.get(operation) === controller) requests.delete(operation);
+    }
   };
 };
 
-useCallbackExample.tsx
-Testing
-Type Jest Tests
-import React from 'react';
-import { render, fireEvent } from '@testing-library/react-native';
-import Button from '../Button';
+export const loadTodos = (): AppThunk => async (dispatch, _getState, { transport, requests }) => {
+  const request = startRequest(requests, 'loadTodos');
+  const meta = { requestId: request.requestId };
+  dispatch({ type: ActionTypes.LOAD_TODOS_PENDING, meta });
 
-describe('Button Component', () => {
-  it('renders correctly with props', () => {
-    const onPressMock = jest.fn();
-    const { getByText } = render(
-      <Button 
-        title="Test Button" 
-        onPress={onPressMock} 
-        disabled={false} 
-      />
-    );
-    
-    const buttonElement = getByText('Test Button');
-    expect(buttonElement).toBeTruthy();
-    
-    fireEvent.press(buttonElement);
-    expect(onPressMock).toHaveBeenCalledTimes(1);
-  });
-});
+  try {
+    const todos = await transport.loadTodos(request.signal);
+    if (request.isSuperseded()) return;
+    // A transport that ignores the signal may still resolve after a cancel
+    if (request.signal.aborted) throw new CancelledError('loadTodos was cancelled');
+    dispatch({ type: ActionTypes.LOAD_TODOS_FULFILLED, payload: { todos }, meta });
+  } catch (error) {
+    if (request.isSuperseded()) return;
+    dispatch({
+      type: ActionTypes.LOAD_TODOS_REJECTED,
+      payload: { error: handleError(error), cancelled: request.signal.aborted },
+      meta
+    });
+  } finally {
+    request.finish();
+  }
+};
 
-Button.test.tsx
-Utility Types
-Leverage TypeScript Utility Types
-// Example of common utility types in action
+export const saveTodos = (): AppThunk => async (dispatch, getState, { transport, requests }) => {
+  const request = startRequest(requests, 'saveTodos');
+  const meta = { requestId: request.requestId };
+  dispatch({ type: ActionTypes.SAVE_TODOS_PENDING, meta });
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  password: string;
-  createdAt: Date;
-  role: 'admin' | 'user';
+  try {
+    await transport.saveTodos(getState().todo.present.todos, request.signal);
+    if (request.isSuperseded()) return;
+    if (request.signal.aborted) throw new CancelledError('saveTodos was cancelled');
+    dispatch({ type: ActionTypes.SAVE_TODOS_FULFILLED, meta });
+  } catch (error) {
+    if (request.isSuperseded()) return;
+    dispatch({
+      type: ActionTypes.SAVE_TODOS_REJECTED,
+      payload: { error: handleError(error), cancelled: request.signal.aborted },
+      meta
+    });
+  } finally {
+    request.finish();
+  }
+};
+
+// Aborts everything in flight, e.g. when the screen that started it unmounts.
+// Each thunk then dispatches its rejected action with cancelled: true and removes its own entry.
+export const cancelTodoRequests = (): AppThunk<void> => (_dispatch, _getState, { requests }) => {
+  requests.forEach(controller => controller.abort());
+};
+
+todoThunks.ts
+Type Higher-Order Reducers
+Wrap any reducer to record its states for undo, redo and time travel without changing the wrapped state type:
+
+import { Action, Reducer } from 'redux';
+
+export enum HistoryActionTypes {
+  UNDO = 'UNDO',
+  REDO = 'REDO',
+  JUMP_TO = 'JUMP_TO'
 }
 
-// Omit sensitive fields for public API
-type PublicUser = Omit<User, 'password'>;
+export interface UndoAction {
+  type: HistoryActionTypes.UNDO;
+}
 
-// Pick only what's needed for profile display
-type UserProfile = Pick<User, 'id' | 'name' | 'email'>;
+export interface RedoAction {
+  type: HistoryActionTypes.REDO;
+}
 
-// Make fields optional for update operations
-type UserUpdate = Partial<UserProfile>;
+export interface JumpToAction {
+  type: HistoryActionTypes.JUMP_TO;
+  payload: {
+    // Position in the timeline [...past, present, ...future]
+    index: number;
+  };
+}
 
-// Make fields required for creation
-type RequiredUserFields = Required<Pick<User, 'name' | 'email' | 'password'>>;
+export type HistoryActions = UndoAction | RedoAction | JumpToAction;
 
-// Read-only user object for immutable data
-type ReadOnlyUser = Readonly<User>;
+export interface HistoryState<S> {
+  past: S[];
+  present: S;
+  future: S[];
+}
 
-// Extract the possible role values
-type UserRole = User['role']; // 'admin' | 'user'
+interface HistoryOptions<S, A> {
+  // Maximum number of past states kept
+  limit?: number;
+  // Return false for actions whose result should not become an undo step
+  filter?: (action: A) => boolean;
+  // Return true for actions that replace the state wholesale, e.g. a reload from the server;
+  // undoing past them would bring back data the server no longer has, so history starts over
+  clear?: (action: A) => boolean;
+  // Copies live fields such as loading flags from present onto a restored snapshot
+  carryOver?: (snapshot: S, present: S) => S;
+}
 
-// Record for mapping IDs to users
-type UserMap = Record<string, PublicUser>;
+export const undo = (): UndoAction => ({ type: HistoryActionTypes.UNDO });
 
-utilityTypes.ts
-Error Handling
-Type-Safe Error Handling
-// Define error types
-export class ApiError extends Error {
-  status: number;
-  
-  constructor(message: string, status: number) {
-    super(message);
-    this.name = 'ApiError';
-    this.status = status;
+export const redo = (): RedoAction => ({ type: HistoryActionTypes.REDO });
+
+export const jumpTo = (index: number): JumpToAction => ({
+  type: HistoryActionTypes.JUMP_TO,
+  payload: { index }
+});
+
+const historyActionTypes: string[] = Object.values(HistoryActionTypes);
+
+// Type guard function
+export function isHistoryAction(action: Action): action is HistoryActions {
+  return historyActionTypes.includes(action.type);
+}
+
+export const withHistory = <S, A extends Action>(
+  reducer: Reducer<S, A>,
+  { limit = 50, filter = () => true, clear = () => false, carryOver = snapshot => snapshot }: HistoryOptions<S, A> = {}
+): Reducer<HistoryState<S>, A | HistoryActions> => (state, action) => {
+  if (state === undefined) {
+    return { past: [], present: reducer(undefined, action as A), future: [] };
+  }
+
+  const { past, present, future } = state;
+
+  if (!isHistoryAction(action)) {
+    const next = reducer(present, action);
+    if (next === present) return state;
+    if (clear(action)) return { past: [], present: next, future: [] };
+    if (!filter(action)) return { ...state, present: next };
+    return { past: [...past, present].slice(-limit), present: next, future: [] };
+  }
+
+  switch (action.type) {
+    case HistoryActionTypes.UNDO:
+      if (past.length === 0) return state;
+      return {
+        past: past.slice(0, -1),
+        present: carryOver(past[past.length - 1], present),
+        future: [present, ...future]
+      };
+    case HistoryActionTypes.REDO:
+      if (future.length === 0) return state;
+      return {
+        past: [...past, present],
+        present: carryOver(future[0], present),
+        future: future.slice(1)
+      };
+    case HistoryActionTypes.JUMP_TO: {
+      const timeline = [...past, present, ...future];
+      const { index } = action.payload;
+      if (index < 0 || index >= timeline.length || index === past.length) return state;
+      return {
+        past: timeline.slice(0, index),
+        present: carryOver(timeline[index], present),
+        future: timeline.slice(index + 1)
+      };
+    }
+    default: {
+      const _exhaustiveCheck: never = action;
+      return state;
+    }
   }
+};
+
+export const canUndo = <S>(history: HistoryState<S>): boolean => history.past.length > 0;
+
+export const canRedo = <S>(history: HistoryState<S>): boolean => history.future.length > 0;
+
+history.ts
+Infer the Root State
+Infer the root state from the slices instead of maintaining the interface by hand:
+
+import { applyMiddleware, combineReducers, legacy_createStore as createStore } from 'redux';
+import thunk from 'redux-thunk';
+import { HistoryActions, withHistory } from './history';
+import { todoReducer } from './todoReducer';
+import { TodoTransport } from './todoTransport';
+import { ThunkExtra } from './todoThunks';
+import { ActionTypes, TodoActions } from './types';
+
+// Only user edits become undo steps; loading and saving are not undoable
+const undoableTodoActions: string[] = [ActionTypes.ADD_TODO, ActionTypes.TOGGLE_TODO, ActionTypes.REMOVE_TODO];
+
+export const rootReducer = combineReducers({
+  // state.todo.present is the TodoState; past and future hold its earlier and undone versions
+  todo: withHistory(todoReducer, {
+    limit: 100,
+    filter: action => undoableTodoActions.includes(action.type),
+    clear: action => action.type === ActionTypes.LOAD_TODOS_FULFILLED,
+    // Undo restores the list, never a request status that is no longer true
+    carryOver: (snapshot, present) => ({
+      ...snapshot,
+      loading: present.loading,
+      saving: present.saving,
+      error: present.error
+    })
+  })
+  // Add other state slices here
+});
+
+export type RootState = ReturnType<typeof rootReducer>;
+
+// Pass the real transport in App.tsx and createMockTodoTransport() in tests
+export const createAppStore = (transport: TodoTransport) => {
+  const extra: ThunkExtra = { transport, requests: new Map() };
+  return createStore(rootReducer, applyMiddleware(thunk.withExtraArgument<ThunkExtra, RootState, TodoActions | HistoryActions>(extra)));
+};
+
+export type AppStore = ReturnType<typeof createAppStore>;
+export type AppDispatch = AppStore['dispatch'];
+
+store.ts
+Type useSelector and useDispatch
+import { TypedUseSelectorHook, useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from './store';
+
+// Use these throughout the app instead of plain useDispatch and useSelector
+export const useAppDispatch: () => AppDispatch = useDispatch;
+export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
+
+hooks.ts
+Type Design Tokens
+Keep colors, spacing, typography, radii and elevation in one token object so every component reads from the same source:
+
+import { TextStyle, ViewStyle } from 'react-native';
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+// The appearance a concrete theme renders with; 'system' resolves to one of these
+export type ColorMode = Exclude<ThemeMode, 'system'>;
+
+export interface ThemeColors {
+  background: string;
+  surface: string;
+  text: string;
+  primary: string;
+  secondary: string;
+  onPrimary: string;
+  border: string;
+  error: string;
 }
 
-export class ValidationError extends Error {
-  field: string;
-  
-  constructor(message: string, field: string) {
-    super(message);
-    this.name = 'ValidationError';
-    this.field = field;
+export interface ThemeSpacing {
+  xs: number;
+  sm: number;
+  md: number;
+  lg: number;
+  xl: number;
+}
+
+export type TypographyVariant = 'caption' | 'body' | 'subtitle' | 'title' | 'headline';
+export type ThemeTypography = Record<TypographyVariant, Pick<TextStyle, 'fontSize' | 'lineHeight' | 'fontWeight'>>;
+
+export interface ThemeRadii {
+  none: number;
+  sm: number;
+  md: number;
+  lg: number;
+  full: number;
+}
+
+export type ElevationLevel = 'none' | 'low' | 'medium' | 'high';
+export type ThemeElevation = Record<
+  ElevationLevel,
+  Pick<ViewStyle, 'shadowColor' | 'shadowOffset' | 'shadowOpacity' | 'shadowRadius' | 'elevation'>
+>;
+
+export interface Theme {
+  mode: ColorMode;
+  colors: ThemeColors;
+  spacing: ThemeSpacing;
+  typography: ThemeTypography;
+  radii: ThemeRadii;
+  elevation: ThemeElevation;
+}
+
+const spacing: ThemeSpacing = { xs: 4, sm: 8, md: 16, lg: 24, xl: 32 };
+
+const typography: ThemeTypography = {
+  caption: { fontSize: 12, lineHeight: 16, fontWeight: '400' },
+  body: { fontSize: 16, lineHeight: 22, fontWeight: '400' },
+  subtitle: { fontSize: 18, lineHeight: 24, fontWeight: '500' },
+  title: { fontSize: 22, lineHeight: 28, fontWeight: '600' },
+  headline: { fontSize: 28, lineHeight: 34, fontWeight: 'bold' }
+};
+
+const radii: ThemeRadii = { none: 0, sm: 4, md: 8, lg: 16, full: 9999 };
+
+const elevation: ThemeElevation = {
+  none: { elevation: 0 },
+  low: { shadowColor: '#000', shadowOffset: { width: 0, height: 1 }, shadowOpacity: 0.18, shadowRadius: 1, elevation: 1 },
+  medium: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.22, shadowRadius: 4, elevation: 4 },
+  high: { shadowColor: '#000', shadowOffset: { width: 0, height: 6 }, shadowOpacity: 0.3, shadowRadius: 8, elevation: 8 }
+};
+
+// Only mode and colors are required; every other scale falls back to the shared defaults
+export const createTheme = (
+  theme: Pick<Theme, 'mode' | 'colors'> & Partial<Omit<Theme, 'mode' | 'colors'>>
+): Theme => ({
+  spacing,
+  typography,
+  radii,
+  elevation,
+  ...theme
+});
+
+export const lightTheme = createTheme({
+  mode: 'light',
+  colors: {
+    background: '#FFFFFF',
+    surface: '#F2F2F7',
+    text: '#000000',
+    // Darker than the system blue and red so text on and over them meets WCAG AA (4.5:1)
+    primary: '#0066CC',
+    secondary: '#5856D6',
+    onPrimary: '#FFFFFF',
+    border: '#C6C6C8',
+    error: '#D70015'
+  }
+});
+
+export const darkTheme = createTheme({
+  mode: 'dark',
+  colors: {
+    background: '#000000',
+    surface: '#1C1C1E',
+    text: '#FFFFFF',
+    primary: '#0A84FF',
+    secondary: '#7D7AFF',
+    // White on these bright accents falls below 4.5:1
+    onPrimary: '#000000',
+    border: '#38383A',
+    error: '#FF453A'
   }
+});
+
+tokens.ts
+Type Context API
+Persist context state through a small storage adapter so it can be swapped for AsyncStorage, SecureStore or an in-memory fake in tests:
+
+// Async key-value contract satisfied by AsyncStorage and similar libraries
+export interface StorageAdapter {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
 }
 
-// Type guard functions
-export function isApiError(error: unknown): error is ApiError {
-  return error instanceof ApiError;
+// In-memory adapter for tests and environments without persistence
+export const createMemoryStorage = (initial: Record<string, string> = {}): StorageAdapter => {
+  const entries = new Map<string, string>(Object.entries(initial));
+
+  return {
+    getItem: async (key) => entries.get(key) ?? null,
+    setItem: async (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: async (key) => {
+      entries.delete(key);
+    }
+  };
+};
+
+storage.ts
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useColorScheme } from 'react-native';
+import { StorageAdapter } from '../utils/storage';
+import { ColorMode, Theme, ThemeColors, ThemeMode, darkTheme, lightTheme } from '../theme/tokens';
+
+// Built-in themes plus any theme registered at runtime
+type ThemeName = ThemeMode | (string & {});
+
+interface ThemeContextType {
+  theme: ThemeName;
+  // The theme actually in use; never 'system'
+  resolvedTheme: string;
+  tokens: Theme;
+  colors: ThemeColors;
+  themes: string[];
+  setTheme: (theme: ThemeName) => void;
+  registerTheme: (name: string, theme: Theme) => void;
 }
 
-export function isValidationError(error: unknown): error is ValidationError {
-  return error instanceof ValidationError;
+export interface ThemeProviderProps {
+  initialTheme?: ThemeName;
+  storage?: StorageAdapter;
+  storageKey?: string;
+  themes?: Record<string, Theme>;
 }
 
-// Type-safe error handler
-export function handleError(error: unknown): string {
-  if (isApiError(error)) {
-    return `API Error (${error.status}): ${error.message}`;
-  } else if (isValidationError(error)) {
-    return `Validation Error in ${error.field}: ${error.message}`;
-  } else if (error instanceof Error) {
-    return `Error: ${error.message}`;
-  } else {
-    return 'An unknown error occurred';
+// 'system' has no tokens of its own, it resolves to light or dark at runtime
+const defaultThemes: Record<ColorMode, Theme> = {
+  light: lightTheme,
+  dark: darkTheme
+};
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export const ThemeProvider: React.FC<React.PropsWithChildren<ThemeProviderProps>> = ({
+  children,
+  initialTheme = 'system',
+  storage,
+  storageKey = '@theme',
+  themes
+}) => {
+  const colorScheme = useColorScheme();
+  const [theme, setThemeState] = useState<ThemeName>(initialTheme);
+  const [registry, setRegistry] = useState<Record<string, Theme>>(() => ({
+    ...defaultThemes,
+    ...themes
+  }));
+  const hasUserChoice = useRef(false);
+
+  // Restore the persisted theme unless the user already picked one
+  useEffect(() => {
+    if (!storage) return;
+    let active = true;
+
+    storage
+      .getItem(storageKey)
+      .then((stored) => {
+        if (active && stored && !hasUserChoice.current) {
+          setThemeState(stored);
+        }
+      })
+      .catch((error: unknown) => {
+        console.warn('Failed to restore theme', error);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [storage, storageKey]);
+
+  const setTheme = useCallback((next: ThemeName): void => {
+    hasUserChoice.current = true;
+    setThemeState(next);
+    storage?.setItem(storageKey, next).catch((error: unknown) => {
+      console.warn('Failed to persist theme', error);
+    });
+  }, [storage, storageKey]);
+
+  const registerTheme = useCallback((name: string, next: Theme): void => {
+    if (name === 'system') {
+      throw new Error("'system' is reserved and cannot be registered as a theme");
+    }
+    setRegistry(prev => ({ ...prev, [name]: next }));
+  }, []);
+
+  const resolvedTheme = theme === 'system'
+    ? (colorScheme === 'dark' ? 'dark' : 'light')
+    : theme;
+
+  // A persisted name whose theme is not registered yet falls back to light
+  const tokens = registry[resolvedTheme] ?? defaultThemes.light;
+
+  const value = useMemo<ThemeContextType>(() => ({
+    theme,
+    resolvedTheme,
+    tokens,
+    colors: tokens.colors,
+    themes: ['system', ...Object.keys(registry)],
+    setTheme,
+    registerTheme
+  }), [theme, resolvedTheme, tokens, registry, setTheme, registerTheme]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
+
+export const useTheme = (): ThemeContextType => {
+  const context = useContext(ThemeContext);
+  if (context === undefined) {
+    throw new Error('useTheme must be used within a ThemeProvider');
   }
+  return context;
+};
+
+ThemeContext.tsx
+Derive Styles from the Theme
+import { StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { Theme } from './tokens';
+
+// Builds a hook returning styles for the active theme; each theme's StyleSheet is created once
+export const createThemedStyles = <T extends StyleSheet.NamedStyles<T>>(
+  factory: (theme: Theme) => T
+) => {
+  const cache = new WeakMap<Theme, T>();
+
+  return (): T => {
+    const { tokens } = useTheme();
+    let styles = cache.get(tokens);
+    if (!styles) {
+      styles = StyleSheet.create(factory(tokens));
+      cache.set(tokens, styles);
+    }
+    return styles;
+  };
+};
+
+createThemedStyles.ts
+Performance Optimization
+Use React.memo with TypeScript
+import React from 'react';
+import { Text } from 'react-native';
+
+interface Props {
+  value: string;
+  onPress?: () => void;
 }
 
-errorHandling.ts
+const MemoizedComponent = React.memo<Props>(({ value, onPress }) => {
+  return (
+    <Text onPress={onPress} accessibilityRole={onPress ? 'button' : 'text'}>
+      {value}
+    </Text>
+  );
+});
+
+export default MemoizedComponent;
+
+MemoizedComponent.tsx
+Type useCallback and useMemo Properly
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { track } from '../analytics';
+
+interface Item {
+  id: string;
+  name: string;
+}
+
+type SortDirection = 'asc' | 'desc';
+type Comparator<T> = (a: T, b: T) => number;
+type SelectionMode = 'single' | 'multiple';
+
+interface SortConfig<T> {
+  by: keyof T | Comparator<T>;
+  direction: SortDirection;
+}
+
+interface ItemHandlerOptions<T> {
+  selectionMode?: SelectionMode;
+  // Defaults to name ascending for items with a name, as before; null keeps the manual (reorderable) order
+  sort?: SortConfig<T> | null;
+  // Fields searched by the filter text; defaults to every string field
+  filterKeys?: Array<keyof T>;
+  onSelectionChange?: (ids: string[]) => void;
+  // Fires when the user picks one item, not for deselecting or range selection
+  onItemSelect?: (id: string) => void;
+}
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return 0;
+};
+
+const toComparator = <T,>(by: keyof T | Comparator<T>): Comparator<T> =>
+  typeof by === 'function' ? by : (a, b) => compareValues(a[by], b[by]);
+
+const defaultSort = <T,>(items: T[]): SortConfig<T> | undefined =>
+  items.some(item => typeof (item as { name?: unknown }).name === 'string')
+    ? { by: 'name' as keyof T, direction: 'asc' }
+    : undefined;
+
+// Moves one entry and returns a new array; every other entry keeps its relative order
+export const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+};
+
+export const useItemHandlers = <T extends { id: string }>(
+  items: T[],
+  { selectionMode = 'single', sort: initialSort, filterKeys, onSelectionChange, onItemSelect }: ItemHandlerOptions<T> = {}
+) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [sort, setSort] = useState<SortConfig<T> | undefined>(() =>
+    initialSort === undefined ? defaultSort(items) : initialSort ?? undefined
+  );
+  const [filterText, setFilterText] = useState('');
+  const [manualOrder, setManualOrder] = useState<string[]>(() => items.map(item => item.id));
+  // Start of a range selection: the last item selected individually
+  const anchorId = useRef<string | null>(null);
+
+  // Keep the manual order in sync with incoming items: known ids keep their place, new ones go last
+  useEffect(() => {
+    setManualOrder(prev => {
+      const incoming = new Set(items.map(item => item.id));
+      const kept = prev.filter(id => incoming.has(id));
+      const known = new Set(kept);
+      return [...kept, ...items.filter(item => !known.has(item.id)).map(item => item.id)];
+    });
+  }, [items]);
+
+  const updateSelection = useCallback((ids: string[]): void => {
+    setSelectedIds(ids);
+    onSelectionChange?.(ids);
+  }, [onSelectionChange]);
+
+  // Properly typed memo
+  const sortedItems = useMemo((): T[] => {
+    const position = new Map(manualOrder.map((id, index) => [id, index]));
+    const byManualOrder: Comparator<T> = (a, b) =>
+      (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER);
+
+    if (!sort) return [...items].sort(byManualOrder);
+
+    const compare = toComparator(sort.by);
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    // Ties fall back to the manual order so the result is stable
+    return [...items].sort((a, b) => sign * compare(a, b) || byManualOrder(a, b));
+  }, [items, sort, manualOrder]);
+
+  const visibleItems = useMemo((): T[] => {
+    const query = filterText.trim().toLowerCase();
+    if (!query) return sortedItems;
+
+    return sortedItems.filter(item => {
+      const keys = filterKeys ?? (Object.keys(item) as Array<keyof T>);
+      return keys.some(key => {
+        const value = item[key];
+        return typeof value === 'string' && value.toLowerCase().includes(query);
+      });
+    });
+  }, [sortedItems, filterText, filterKeys]);
+
+  // Properly typed callback
+  const handleItemSelect = useCallback((id: string): void => {
+    anchorId.current = id;
+    const wasSelected = selectedIds.includes(id);
+    if (!wasSelected) onItemSelect?.(id);
+
+    if (selectionMode === 'single') {
+      updateSelection(wasSelected ? [] : [id]);
+      return;
+    }
+    updateSelection(wasSelected ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]);
+  }, [selectionMode, selectedIds, updateSelection, onItemSelect]);
+
+  // Selects every visible item between the anchor and id, inclusive
+  const selectRange = useCallback((id: string): void => {
+    if (selectionMode === 'single' || anchorId.current === null) {
+      handleItemSelect(id);
+      return;
+    }
+    const ids = visibleItems.map(item => item.id);
+    const start = ids.indexOf(anchorId.current);
+    const end = ids.indexOf(id);
+    if (start < 0 || end < 0) {
+      handleItemSelect(id);
+      return;
+    }
+    const range = ids.slice(Math.min(start, end), Math.max(start, end) + 1);
+    updateSelection(Array.from(new Set([...selectedIds, ...range])));
+  }, [selectionMode, visibleItems, selectedIds, handleItemSelect, updateSelection]);
+
+  const selectAll = useCallback((): void => {
+    if (selectionMode === 'multiple') updateSelection(visibleItems.map(item => item.id));
+  }, [selectionMode, visibleItems, updateSelection]);
+
+  const clearSelection = useCallback((): void => {
+    anchorId.current = null;
+    updateSelection([]);
+  }, [updateSelection]);
+
+  // Drag-and-drop result: indexes are positions in visibleItems. The displayed order becomes
+  // the manual order and replaces any sort; items hidden by the filter keep their slots.
+  const reorder = useCallback((from: number, to: number): T[] => {
+    const next = moveItem(visibleItems, from, to);
+    const visibleIds = new Set(next.map(item => item.id));
+    let slot = 0;
+    setManualOrder(sortedItems.map(item => (visibleIds.has(item.id) ? next[slot++].id : item.id)));
+    setSort(undefined);
+    return next;
+  }, [visibleItems, sortedItems]);
+
+  const selectedItems = useMemo(
+    (): T[] => items.filter(item => selectedIds.includes(item.id)),
+    [items, selectedIds]
+  );
+
+  return {
+    sortedItems,
+    visibleItems,
+    selectedIds,
+    selectedItems,
+    isSelected: (id: string): boolean => selectedIds.includes(id),
+    handleItemSelect,
+    selectRange,
+    selectAll,
+    clearSelection,
+    sort,
+    setSort,
+    filterText,
+    setFilterText,
+    reorder
+  };
+};
+
+// Usage with the Item type: multi-select, sorted by name, picks tracked
+export const useItemList = (items: Item[]) => {
+  // Stable, so the memoized handlers are not recreated on every render
+  const onItemSelect = useCallback((id: string) => track('item_selected', { id }), []);
+
+  return useItemHandlers(items, {
+    selectionMode: 'multiple',
+    sort: { by: 'name', direction: 'asc' },
+    onItemSelect
+  });
+};
+
+useCallbackExample.tsx
+Testing
+Type Jest Tests
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { ThemeProvider } from '../../context/ThemeContext';
+import { darkTheme, lightTheme } from '../../theme/tokens';
+import { auditAccessibility, auditThemeColors } from '../../testing/a11yAudit';
+import Button from '../Button';
+
+describe('Button Component', () => {
+  it('renders correctly with props', () => {
+    const onPressMock = jest.fn();
+    const { getByText } = render(
+      <ThemeProvider initialTheme="light">
+        <Button 
+          title="Test Button" 
+          onPress={onPressMock} 
+          disabled={false} 
+        />
+      </ThemeProvider>
+    );
+    
+    const buttonElement = getByText('Test Button');
+    expect(buttonElement).toBeTruthy();
+    
+    fireEvent.press(buttonElement);
+    expect(onPressMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes the accessibility audit', () => {
+    const { UNSAFE_root, getByRole } = render(
+      <ThemeProvider initialTheme="light">
+        <Button title="Save" onPress={jest.fn()} loading />
+      </ThemeProvider>
+    );
+
+    expect(getByRole('button', { name: 'Save' })).toBeTruthy();
+    expect(auditAccessibility(UNSAFE_root, { colors: lightTheme.colors })).toEqual([]);
+  });
+
+  it.each([lightTheme, darkTheme])('has readable $mode theme colors', (theme) => {
+    expect(auditThemeColors(theme.colors)).toEqual([]);
+  });
+});
+
+Button.test.tsx
+Audit Accessibility in Tests
+Walk the rendered test tree for unlabeled controls and images, small touch targets and text that is hard to read on the active theme:
+
+import { StyleSheet, TextStyle, ViewStyle } from 'react-native';
+import { ReactTestInstance } from 'react-test-renderer';
+import { ThemeColors } from '../theme/tokens';
+
+export type A11yIssueKind = 'missing-label' | 'small-touch-target' | 'low-contrast';
+
+export interface A11yIssue {
+  kind: A11yIssueKind;
+  // Host element type plus testID, e.g. 'View#submit'
+  element: string;
+  message: string;
+}
+
+export interface A11yAuditOptions {
+  colors: ThemeColors;
+  // 44pt on iOS; Material asks for 48dp
+  minTouchTarget?: number;
+  minContrast?: number;
+  // WCAG allows a lower ratio for large text
+  minLargeTextContrast?: number;
+}
+
+type Rgb = [number, number, number];
+
+// #rgb, #rgba, #rrggbb or #rrggbbaa; alpha is ignored, other formats are skipped
+const parseHex = (color: string): Rgb | null => {
+  const hex = color.trim().replace(/^#/, '');
+  if (!/^[0-9a-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null;
+  const full = hex.length <= 4 ? hex.split('').map(digit => digit + digit).join('') : hex;
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16)) as Rgb;
+};
+
+// Relative luminance as defined by WCAG 2.x
+const luminance = (rgb: Rgb): number => {
+  const [r, g, b] = rgb.map((value) => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+// From 1 (no contrast) to 21 (black on white); null if either color cannot be parsed
+export const contrastRatio = (foreground: string, background: string): number | null => {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) return null;
+  const [lighter, darker] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+const describeNode = (node: ReactTestInstance): string =>
+  node.props.testID ? `${String(node.type)}#${node.props.testID}` : String(node.type);
+
+const textContent = (node: ReactTestInstance): string =>
+  node.children.map(child => (typeof child === 'string' ? child : textContent(child))).join('');
+
+const isPressable = (node: ReactTestInstance): boolean =>
+  node.props.accessibilityRole === 'button' ||
+  typeof node.props.onClick === 'function' ||
+  typeof node.props.onResponderRelease === 'function';
+
+const isLargeText = ({ fontSize = 14, fontWeight }: TextStyle): boolean =>
+  fontSize >= 24 || (fontSize >= 18.66 && (fontWeight === 'bold' || Number(fontWeight) >= 700));
+
+// Only sizes the test tree knows; layout is not computed in tests
+const slop = (hitSlop: unknown, sides: ['top', 'bottom'] | ['left', 'right']): number => {
+  if (typeof hitSlop === 'number') return hitSlop * 2;
+  const insets = (hitSlop ?? {}) as Partial<Record<string, number>>;
+  return (insets[sides[0]] ?? 0) + (insets[sides[1]] ?? 0);
+};
+
+const knownSize = (...values: unknown[]): number | null => {
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  return numbers.length > 0 ? Math.max(...numbers) : null;
+};
+
+export const auditAccessibility = (root: ReactTestInstance, options: A11yAuditOptions): A11yIssue[] => {
+  const { colors, minTouchTarget = 44, minContrast = 4.5, minLargeTextContrast = 3 } = options;
+  const issues: A11yIssue[] = [];
+  const report = (kind: A11yIssueKind, node: ReactTestInstance, message: string) =>
+    issues.push({ kind, element: describeNode(node), message });
+
+  // grouped: inside an accessible element, which screen readers announce as a whole
+  const visit = (node: ReactTestInstance, background: string, color: string, grouped: boolean): void => {
+    const { props } = node;
+    if (props.accessibilityElementsHidden || props.importantForAccessibility === 'no-hide-descendants') return;
+
+    // Composite components pass their props down, so only host elements are checked
+    if (typeof node.type !== 'string') {
+      node.children.forEach(child => typeof child !== 'string' && visit(child, background, color, grouped));
+      return;
+    }
+
+    const style: ViewStyle & TextStyle = StyleSheet.flatten(props.style) ?? {};
+    const ownBackground = typeof style.backgroundColor === 'string' && parseHex(style.backgroundColor)
+      ? style.backgroundColor
+      : background;
+    const ownColor = typeof style.color === 'string' ? style.color : color;
+    const label: unknown = props.accessibilityLabel ?? props['aria-label'];
+
+    if (!grouped && !label && props.accessible !== false) {
+      if (isPressable(node) && !textContent(node).trim()) {
+        report('missing-label', node, 'Pressable element has no accessibilityLabel or text');
+      } else if (props.source !== undefined) {
+        report('missing-label', node, 'Image has no accessibilityLabel; set accessible={false} if it is decorative');
+      }
+    }
+
+    if (isPressable(node)) {
+      const height = knownSize(style.height, style.minHeight);
+      const width = knownSize(style.width, style.minWidth);
+      if (height !== null && height + slop(props.hitSlop, ['top', 'bottom']) < minTouchTarget) {
+        report('small-touch-target', node, `Touch target is ${height}pt high, below ${minTouchTarget}pt`);
+      } else if (width !== null && width + slop(props.hitSlop, ['left', 'right']) < minTouchTarget) {
+        report('small-touch-target', node, `Touch target is ${width}pt wide, below ${minTouchTarget}pt`);
+      }
+    }
+
+    if (node.children.some(child => typeof child === 'string' && child.trim())) {
+      const required = isLargeText(style) ? minLargeTextContrast : minContrast;
+      const ratio = contrastRatio(ownColor, ownBackground);
+      if (ratio !== null && ratio < required) {
+        report('low-contrast', node, `${ownColor} on ${ownBackground} has contrast ${ratio.toFixed(2)}:1, below ${required}:1`);
+      }
+    }
+
+    node.children.forEach(
+      child => typeof child !== 'string' && visit(child, ownBackground, ownColor, grouped || props.accessible === true)
+    );
+  };
+
+  visit(root, colors.background, colors.text, false);
+  return issues;
+};
+
+// Checks the color pairs the components draw with, so a new theme is caught before any screen renders
+export const auditThemeColors = (colors: ThemeColors, minContrast = 4.5): A11yIssue[] => {
+  const pairs: [keyof ThemeColors, keyof ThemeColors][] = [
+    ['text', 'background'],
+    ['text', 'surface'],
+    ['onPrimary', 'primary'],
+    ['onPrimary', 'secondary'],
+    ['primary', 'background'],
+    ['error', 'background']
+  ];
+
+  return pairs.flatMap(([foreground, background]) => {
+    const ratio = contrastRatio(colors[foreground], colors[background]);
+    return ratio !== null && ratio < minContrast
+      ? [{
+          kind: 'low-contrast' as const,
+          element: `colors.${foreground} on colors.${background}`,
+          message: `Contrast ${ratio.toFixed(2)}:1 is below ${minContrast}:1`
+        }]
+      : [];
+  });
+};
+
+a11yAudit.ts
+Build Fixtures with Factories
+Factories fill in every required field, so a test only spells out the values it is actually about:
+
+import { Todo } from '../store/types';
+import { AudioMedia, DocumentMedia, Media, PhotoMedia, Product, VideoMedia } from '../types';
+import { PublicUser, User, UserProfile } from '../utils/utilityTypes';
+
+export interface Factory<T> {
+  (overrides?: Partial<T>): T;
+  list: (count: number, overrides?: Partial<T>) => T[];
+}
+
+let sequence = 0;
+
+// Call in beforeEach when a test asserts on generated ids
+export const resetFixtureIds = (): void => {
+  sequence = 0;
+};
+
+// build receives a fresh number per fixture for unique ids and names
+export const createFactory = <T extends object>(build: (n: number) => T): Factory<T> => {
+  const factory = (overrides: Partial<T> = {}): T => ({ ...build(++sequence), ...overrides });
+  factory.list = (count: number, overrides?: Partial<T>): T[] =>
+    Array.from({ length: count }, () => factory(overrides));
+  return factory;
+};
+
+const buildUser = (n: number): User => ({
+  id: `user-${n}`,
+  name: `User ${n}`,
+  email: `user${n}@example.com`,
+  password: 'correct-horse-battery',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  role: 'user'
+});
+
+export const createUser = createFactory(buildUser);
+
+// Built from the same defaults so the variants never drift from the full user
+export const createPublicUser = createFactory<PublicUser>(n => {
+  const { password: _password, ...user } = buildUser(n);
+  return user;
+});
+
+export const createUserProfile = createFactory<UserProfile>(n => {
+  const { id, name, email } = buildUser(n);
+  return { id, name, email };
+});
+
+export const createProduct = createFactory<Product>(n => ({
+  id: `product-${n}`,
+  name: `Product ${n}`,
+  price: 9.99,
+  inStock: true
+}));
+
+export const createTodo = createFactory<Todo>(n => ({
+  id: `todo-${n}`,
+  text: `Todo ${n}`,
+  completed: false
+}));
+
+export const createPhoto = createFactory<PhotoMedia>(n => ({
+  type: 'photo',
+  uri: `https://example.com/photos/${n}.jpg`,
+  width: 1200,
+  height: 800,
+  alt: `Photo ${n}`
+}));
+
+export const createVideo = createFactory<VideoMedia>(n => ({
+  type: 'video',
+  uri: `https://example.com/videos/${n}.mp4`,
+  duration: 75,
+  thumbnail: `https://example.com/videos/${n}.jpg`
+}));
+
+export const createAudio = createFactory<AudioMedia>(n => ({
+  type: 'audio',
+  uri: `https://example.com/audio/${n}.m4a`,
+  duration: 180,
+  title: `Track ${n}`
+}));
+
+export const createDocument = createFactory<DocumentMedia>(n => ({
+  type: 'document',
+  uri: `https://example.com/docs/${n}.pdf`,
+  name: `Document ${n}.pdf`,
+  pageCount: 3
+}));
+
+type MediaOfKind<Kind extends Media['type']> = Extract<Media, { type: Kind }>;
+
+const mediaFactories: { [Kind in Media['type']]: Factory<MediaOfKind<Kind>> } = {
+  photo: createPhoto,
+  video: createVideo,
+  audio: createAudio,
+  document: createDocument
+};
+
+// For tests that pick the kind at runtime: createMedia('video') is typed as VideoMedia
+export const createMedia = <Kind extends Media['type']>(
+  type: Kind,
+  overrides?: Partial<MediaOfKind<Kind>>
+): MediaOfKind<Kind> => mediaFactories[type](overrides);
+
+fixtures.ts
+Mock the API Server
+Handlers are keyed by method and path, and `:params` in the path are typed. The mock replaces `fetch`, so requests still go through `createApiClient` with its interceptors, parsing and errors:
+
+import { ApiClient, ApiClientOptions, createApiClient, HttpMethod } from '../api/apiClient';
+
+export type MockRoute = `${HttpMethod} /${string}`;
+
+// 'GET /users/:id/posts/:postId' -> { id: string; postId: string }
+export type PathParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & PathParams<Rest>
+    : Path extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : Record<never, string>;
+
+export interface MockRequest<Route extends MockRoute> {
+  method: HttpMethod;
+  path: string;
+  params: PathParams<Route>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// Return the response body, or a Response for other status codes; throw to simulate a dropped connection
+export type MockHandler<Route extends MockRoute, Body> = (
+  request: MockRequest<Route>
+) => Body | Response | Promise<Body | Response>;
+
+export interface RecordedRequest {
+  method: HttpMethod;
+  path: string;
+  body: unknown;
+}
+
+interface MockApiOptions {
+  baseUrl?: string;
+  latency?: number;
+}
+
+export const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+const readRequestBody = (body: BodyInit | null | undefined): unknown => {
+  if (typeof body !== 'string') return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+// React Native's URL polyfill cannot read pathname or searchParams, so split by hand
+const parseUrl = (url: string, baseUrl: string): { path: string; query: Record<string, string> } => {
+  const [path, search = ''] = url.slice(baseUrl.replace(/\/+$/, '').length).split('?');
+  const query: Record<string, string> = {};
+  for (const pair of search.split('&').filter(Boolean)) {
+    const [key, value = ''] = pair.split('=');
+    query[decodeURIComponent(key)] = decodeURIComponent(value);
+  }
+  return { path: path || '/', query };
+};
+
+// Matches '/users/42' against '/users/:id'; null when the route does not apply
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const expected = pattern.split('/');
+  const actual = path.split('/');
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) {
+      params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    } else if (expected[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// Routes maps each route to its response body, e.g. { 'GET /users/:id': PublicUser }
+export const createMockApi = <Routes extends Partial<Record<MockRoute, unknown>>>({
+  baseUrl = 'https://api.test',
+  latency = 0
+}: MockApiOptions = {}) => {
+  interface Registered {
+    method: string;
+    pattern: string;
+    handler: (request: MockRequest<MockRoute>) => unknown;
+  }
+
+  let handlers: Registered[] = [];
+  const requests: RecordedRequest[] = [];
+
+  // Later handlers win, so a test can override a default set up in beforeEach
+  const on = <Route extends keyof Routes & MockRoute>(route: Route, handler: MockHandler<Route, Routes[Route]>) => {
+    const [method, pattern] = route.split(' ');
+    const registered: Registered = {
+      method,
+      pattern,
+      handler: handler as (request: MockRequest<MockRoute>) => unknown
+    };
+    handlers = [registered, ...handlers];
+    return () => {
+      handlers = handlers.filter(entry => entry !== registered);
+    };
+  };
+
+  const mockFetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const { path, query } = parseUrl(String(input), baseUrl);
+    const method = (init.method ?? 'GET') as HttpMethod;
+    const body = readRequestBody(init.body);
+    requests.push({ method, path, body });
+
+    if (latency > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, latency);
+        init.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('Aborted'));
+        });
+      });
+    }
+    if (init.signal?.aborted) throw new Error('Aborted');
+
+    for (const { method: routeMethod, pattern, handler } of handlers) {
+      const params = routeMethod === method ? matchPath(pattern, path) : null;
+      if (!params) continue;
+
+      const result = await handler({
+        method,
+        path,
+        params,
+        query,
+        headers: { ...(init.headers as Record<string, string>) },
+        body
+      });
+      return result instanceof Response ? result : jsonResponse(result);
+    }
+
+    return jsonResponse({ message: `No mock handler for ${method} ${path}` }, 404);
+  };
+
+  return {
+    on,
+    fetch: mockFetch as typeof fetch,
+    requests,
+    // No retries or backoff by default so failing tests fail fast
+    createClient: (options: Partial<ApiClientOptions> = {}): ApiClient =>
+      createApiClient({ retries: 0, retryDelay: 0, ...options, baseUrl, fetch: mockFetch as typeof fetch }),
+    reset: (): void => {
+      handlers = [];
+      requests.length = 0;
+    }
+  };
+};
+
+export type MockApi<Routes extends Partial<Record<MockRoute, unknown>>> = ReturnType<typeof createMockApi<Routes>>;
+
+mockApi.ts
+Render with Providers
+Components that call `useTheme`, `useTranslation`, the store hooks or `useRoute` need their providers. Render them through one helper instead of repeating the tree in every test:
+
+import React from 'react';
+import { render, RenderOptions } from '@testing-library/react-native';
+import { NavigationContext, NavigationProp, NavigationRouteContext, ParamListBase } from '@react-navigation/native';
+import { Provider } from 'react-redux';
+import { I18nProvider } from '../context/I18nContext';
+import { ThemeProvider, ThemeProviderProps } from '../context/ThemeContext';
+import { createI18n, I18n } from '../i18n';
+import { AppStore, createAppStore } from '../store/store';
+import { createMockTodoTransport } from '../store/todoTransport';
+
+export type MockNavigation<ParamList extends ParamListBase> = jest.Mocked<NavigationProp<ParamList>>;
+
+// Pairs the screen with its params: { screen: 'Profile', navigationParams: { userId, name } }
+type ScreenOptions<ParamList extends ParamListBase> =
+  | { [Screen in keyof ParamList]: { screen: Screen; navigationParams?: ParamList[Screen] } }[keyof ParamList]
+  | { screen?: undefined; navigationParams?: undefined };
+
+export type RenderWithProvidersOptions<ParamList extends ParamListBase = ParamListBase> = Omit<RenderOptions, 'wrapper'> &
+  ScreenOptions<ParamList> & {
+    // Defaults to 'light' so results do not depend on the machine's color scheme
+    theme?: ThemeProviderProps['initialTheme'];
+    store?: AppStore;
+    i18n?: I18n;
+    wrapper?: React.ComponentType<React.PropsWithChildren>;
+  };
+
+const createMockNavigation = <ParamList extends ParamListBase>(): MockNavigation<ParamList> => ({
+  navigate: jest.fn(),
+  goBack: jest.fn(),
+  reset: jest.fn(),
+  dispatch: jest.fn(),
+  setParams: jest.fn(),
+  setOptions: jest.fn(),
+  canGoBack: jest.fn(() => false),
+  isFocused: jest.fn(() => true),
+  getId: jest.fn(() => undefined),
+  // Untyped mocks satisfy the generic signatures and return undefined, i.e. no parent
+  getParent: jest.fn(),
+  getState: jest.fn(),
+  addListener: jest.fn().mockReturnValue(() => undefined),
+  removeListener: jest.fn()
+});
+
+export function renderWithProviders<ParamList extends ParamListBase = ParamListBase>(
+  ui: React.ReactElement,
+  options: RenderWithProvidersOptions<ParamList> = {}
+) {
+  const {
+    theme = 'light',
+    store = createAppStore(createMockTodoTransport().transport),
+    i18n = createI18n(),
+    wrapper: Wrapper = React.Fragment,
+    screen,
+    navigationParams,
+    ...renderOptions
+  } = options;
+  const navigation = createMockNavigation<ParamList>();
+
+  const Providers: React.FC<React.PropsWithChildren> = ({ children }) => {
+    const content = screen === undefined ? children : (
+      <NavigationContext.Provider value={navigation}>
+        <NavigationRouteContext.Provider value={{ key: `${String(screen)}-test`, name: String(screen), params: navigationParams }}>
+          {children}
+        </NavigationRouteContext.Provider>
+      </NavigationContext.Provider>
+    );
+
+    return (
+      <Provider store={store}>
+        <ThemeProvider initialTheme={theme}>
+          <I18nProvider i18n={i18n}>
+            <Wrapper>{content}</Wrapper>
+          </I18nProvider>
+        </ThemeProvider>
+      </Provider>
+    );
+  };
+
+  return { ...render(ui, { ...renderOptions, wrapper: Providers }), store, navigation, i18n };
+}
+
+renderWithProviders.tsx
+Utility Types
+Leverage TypeScript Utility Types
+// Example of common utility types in action
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  createdAt: Date;
+  role: 'admin' | 'user';
+}
+
+// Omit sensitive fields for public API
+export type PublicUser = Omit<User, 'password'>;
+
+// Pick only what's needed for profile display
+export type UserProfile = Pick<User, 'id' | 'name' | 'email'>;
+
+// Make fields optional for update operations
+export type UserUpdate = Partial<UserProfile>;
+
+// Make fields required for creation
+export type RequiredUserFields = Required<Pick<User, 'name' | 'email' | 'password'>>;
+
+// Read-only user object for immutable data
+export type ReadOnlyUser = Readonly<User>;
+
+// Extract the possible role values
+export type UserRole = User['role']; // 'admin' | 'user'
+
+// Record for mapping IDs to users
+export type UserMap = Record<string, PublicUser>;
+
+utilityTypes.ts
+Error Handling
+Type-Safe Error Handling
+import { I18n, TranslationKey, TranslationParams, t } from '../i18n';
+
+// Stable identifiers for analytics, reporting and tests; never change an existing value
+export type ErrorCode =
+  | 'UNKNOWN'
+  | 'API_ERROR'
+  | 'VALIDATION_ERROR'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'UNAUTHORIZED'
+  | 'PERMISSION_DENIED'
+  | 'CANCELLED';
+
+export type Translate = I18n['t'];
+
+type LooseTranslate = (key: TranslationKey, params?: Record<string, string | number>) => string;
+
+// A translation key and its params, translated on read so the text follows locale switches
+export type UserMessage = {
+  [K in TranslationKey]: keyof TranslationParams<K> extends never
+    ? { key: K }
+    : { key: K; params: TranslationParams<K> };
+}[TranslationKey];
+
+// Stored messages lose the pairing of key and params that t() checks; UserMessage enforces it instead
+export const translateMessage = (message: UserMessage, translate: Translate = t): string => {
+  const { key, params }: { key: TranslationKey; params?: Record<string, string | number> } = message;
+  return (translate as LooseTranslate)(key, params);
+};
+
+export interface AppErrorOptions {
+  cause?: unknown;
+  userMessage?: UserMessage;
+}
+
+export interface ApiErrorOptions extends AppErrorOptions {
+  // Parsed response body, e.g. the field errors of a 422
+  body?: unknown;
+}
+
+// Base error: message is for developers, userMessage is safe to show in the UI
+export class AppError extends Error {
+  code: ErrorCode;
+  userMessageSource: UserMessage;
+  cause?: unknown;
+  
+  constructor(
+    message: string,
+    code: ErrorCode = 'UNKNOWN',
+    { cause, userMessage = { key: 'errors.default' } }: AppErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+    this.userMessageSource = userMessage;
+    this.cause = cause;
+  }
+
+  // In the shared locale; components pass their own t to handleError instead
+  get userMessage(): string {
+    return translateMessage(this.userMessageSource);
+  }
+}
+
+// Define error types
+export class ApiError extends AppError {
+  status: number;
+  body?: unknown;
+  
+  constructor(message: string, status: number, { body, ...options }: ApiErrorOptions = {}) {
+    super(message, 'API_ERROR', { userMessage: { key: 'errors.server' }, ...options });
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export class ValidationError extends AppError {
+  field: string;
+  
+  constructor(message: string, field: string, options: AppErrorOptions = {}) {
+    super(message, 'VALIDATION_ERROR', { userMessage: { key: 'errors.invalid' }, ...options });
+    this.name = 'ValidationError';
+    this.field = field;
+  }
+}
+
+// The request never reached the server or no response came back
+export class NetworkError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, 'NETWORK_ERROR', { userMessage: { key: 'errors.offline' }, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends AppError {
+  timeout: number;
+  
+  constructor(message: string, timeout: number, options: AppErrorOptions = {}) {
+    super(message, 'TIMEOUT', { userMessage: { key: 'errors.timeout' }, ...options });
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+// A 401 is still an ApiError, so existing isApiError checks keep working
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, 401, { userMessage: { key: 'errors.sessionExpired' }, ...options });
+    this.name = 'UnauthorizedError';
+    this.code = 'UNAUTHORIZED';
+  }
+}
+
+// permission names what was refused, e.g. 'location' or 'admin'
+export class PermissionDeniedError extends AppError {
+  permission: string;
+  
+  constructor(message: string, permission: string, options: AppErrorOptions = {}) {
+    super(message, 'PERMISSION_DENIED', { userMessage: { key: 'errors.permissionDenied' }, ...options });
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+  }
+}
+
+// The operation was aborted on purpose; usually not worth showing or reporting
+export class CancelledError extends AppError {
+  constructor(message = 'Operation cancelled', options: AppErrorOptions = {}) {
+    super(message, 'CANCELLED', { userMessage: { key: 'errors.cancelled' }, ...options });
+    this.name = 'CancelledError';
+  }
+}
+
+// Type guard functions
+export function isAppError(error: unknown): error is AppError {
+  return error instanceof AppError;
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError;
+}
+
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+// Wraps anything thrown into an AppError, keeping the original as cause
+export function toAppError(error: unknown): AppError {
+  if (isAppError(error)) return error;
+  if (error instanceof Error) return new AppError(error.message, 'UNKNOWN', { cause: error });
+  return new AppError('An unknown error occurred', 'UNKNOWN', { cause: error });
+}
+
+// Type-safe error handler; components pass t from useTranslation so the text follows their locale
+export function handleError(error: unknown, translate: Translate = t): string {
+  if (isApiError(error)) {
+    return translate('errors.api', { status: error.status, message: error.message });
+  } else if (isValidationError(error)) {
+    return translate('errors.validation', { field: error.field, message: error.message });
+  } else if (isAppError(error)) {
+    return translateMessage(error.userMessageSource, translate);
+  } else if (error instanceof Error) {
+    return translate('errors.generic', { message: error.message });
+  } else {
+    return translate('errors.unknown');
+  }
+}
+
+errorHandling.ts
+Report Errors Through Pluggable Sinks
+Send every error through one pipeline that deduplicates repeats and strips personal data before any sink sees it:
+
+import { ApiClient } from '../api/apiClient';
+import { ErrorCode, isCancelledError, toAppError } from './errorHandling';
+
+export interface ErrorReport {
+  code: ErrorCode;
+  name: string;
+  message: string;
+  userMessage: string;
+  stack?: string;
+  // The cause chain, outermost first
+  causes: Array<{ name: string; message: string }>;
+  context: Record<string, unknown>;
+  fingerprint: string;
+  // Repeats suppressed since this fingerprint was last sent
+  occurrences: number;
+  timestamp: number;
+}
+
+export interface ErrorSink {
+  send: (report: ErrorReport) => void | Promise<void>;
+  flush?: () => Promise<void>;
+}
+
+export interface ErrorReporterOptions {
+  sinks: ErrorSink[];
+  // Identical errors inside this window are counted instead of sent again
+  dedupeWindow?: number;
+  redactKeys?: string[];
+}
+
+const REDACTED = '[REDACTED]';
+const DEFAULT_REDACT_KEYS = ['password', 'email', 'token', 'accessToken', 'refreshToken', 'authorization', 'phone'];
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+
+const redactText = (text: string): string => text.replace(EMAIL_PATTERN, REDACTED);
+
+const redact = (value: unknown, keys: Set<string>, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map(item => redact(item, keys, seen));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [
+      key,
+      keys.has(key.toLowerCase()) ? REDACTED : redact(entry, keys, seen)
+    ])
+  );
+};
+
+const collectCauses = (cause: unknown): ErrorReport['causes'] => {
+  const causes: ErrorReport['causes'] = [];
+  let current = cause;
+  // Bounded so a self-referencing cause cannot loop forever
+  while (current !== undefined && causes.length < 10) {
+    if (current instanceof Error) {
+      causes.push({ name: current.name, message: redactText(current.message) });
+      current = (current as { cause?: unknown }).cause;
+    } else {
+      causes.push({ name: typeof current, message: redactText(String(current)) });
+      current = undefined;
+    }
+  }
+  return causes;
+};
+
+export const createErrorReporter = ({
+  sinks,
+  dedupeWindow = 60000,
+  redactKeys = DEFAULT_REDACT_KEYS
+}: ErrorReporterOptions) => {
+  const keys = new Set(redactKeys.map(key => key.toLowerCase()));
+  const recent = new Map<string, { sentAt: number; suppressed: number }>();
+
+  const report = (error: unknown, context: Record<string, unknown> = {}): ErrorReport | null => {
+    // Cancellation is expected control flow, not a failure
+    if (isCancelledError(error)) return null;
+
+    const appError = toAppError(error);
+    const message = redactText(appError.message);
+    const fingerprint = `${appError.code}:${appError.name}:${message}`;
+    const now = Date.now();
+
+    const previous = recent.get(fingerprint);
+    if (previous && now - previous.sentAt < dedupeWindow) {
+      previous.suppressed++;
+      return null;
+    }
+    // Forget fingerprints whose window has passed, so a long session does not collect every error it ever saw
+    recent.forEach((entry, key) => {
+      if (now - entry.sentAt >= dedupeWindow) recent.delete(key);
+    });
+    recent.set(fingerprint, { sentAt: now, suppressed: 0 });
+
+    const errorReport: ErrorReport = {
+      code: appError.code,
+      name: appError.name,
+      message,
+      userMessage: appError.userMessage,
+      stack: appError.stack && redactText(appError.stack),
+      causes: collectCauses(appError.cause),
+      context: redact(context, keys) as Record<string, unknown>,
+      fingerprint,
+      occurrences: (previous?.suppressed ?? 0) + 1,
+      timestamp: now
+    };
+
+    sinks.forEach(sink => {
+      Promise.resolve(sink.send(errorReport)).catch((sinkError: unknown) => {
+        console.warn('Error sink failed', sinkError);
+      });
+    });
+    return errorReport;
+  };
+
+  const flush = async (): Promise<void> => {
+    await Promise.all(sinks.map(sink => sink.flush?.()));
+  };
+
+  return { report, flush };
+};
+
+export type ErrorReporter = ReturnType<typeof createErrorReporter>;
+
+export const createConsoleSink = (): ErrorSink => ({
+  send: (report) => {
+    console.error(`[${report.code}] ${report.name}: ${report.message}`, report);
+  }
+});
+
+// Keeps reports in memory for tests and debug screens
+export const createMemorySink = () => {
+  const reports: ErrorReport[] = [];
+  const sink: ErrorSink = {
+    send: (report) => {
+      reports.push(report);
+    }
+  };
+  return { sink, reports };
+};
+
+interface HttpSinkOptions {
+  client: ApiClient;
+  path: string;
+  batchSize?: number;
+  flushInterval?: number;
+}
+
+// Buffers reports and posts them in batches; a failed batch is retried on the next interval
+export const createBatchingHttpSink = ({
+  client,
+  path,
+  batchSize = 20,
+  flushInterval = 10000
+}: HttpSinkOptions): ErrorSink => {
+  let buffer: ErrorReport[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending = Promise.resolve();
+
+  const schedule = (): void => {
+    if (timer || buffer.length === 0) return;
+    timer = setTimeout(() => {
+      flush();
+    }, flushInterval);
+  };
+
+  const sendBatch = async (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (buffer.length === 0) return;
+
+    const batch = buffer.slice(0, batchSize);
+    buffer = buffer.slice(batchSize);
+    try {
+      await client.post(path, { reports: batch });
+    } catch {
+      // While the endpoint is down, the oldest reports go first; the latest describe what is failing now
+      buffer = [...batch, ...buffer].slice(-batchSize * 5);
+    }
+    schedule();
+  };
+
+  // One batch at a time, so a failed batch goes back ahead of newer reports
+  const flush = (): Promise<void> => {
+    pending = pending.then(sendBatch);
+    return pending;
+  };
+
+  return {
+    send: (report) => {
+      buffer.push(report);
+      if (buffer.length >= batchSize) {
+        flush();
+      } else {
+        schedule();
+      }
+    },
+    flush
+  };
+};
+
+let defaultReporter: ErrorReporter = createErrorReporter({ sinks: [createConsoleSink()] });
+
+// Call once at startup, e.g. with the console sink in dev and the HTTP sink in production
+export const configureErrorReporting = (options: ErrorReporterOptions): void => {
+  defaultReporter = createErrorReporter(options);
+};
+
+export const reportError = (error: unknown, context?: Record<string, unknown>): ErrorReport | null =>
+  defaultReporter.report(error, context);
+
+errorReporting.ts
+Catch Render Errors with Error Boundaries
+Error boundaries must be class components; the fallbacks are function components so they can read the theme and the locale of the surrounding I18nProvider:
+
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from '../context/I18nContext';
+import { useTheme } from '../context/ThemeContext';
+import { ApiError, ValidationError, handleError, isApiError, isValidationError } from '../utils/errorHandling';
+import { reportError } from '../utils/errorReporting';
+
+export interface FallbackProps<E = unknown> {
+  error: E;
+  // The error formatted with handleError
+  message: string;
+  resetError: () => void;
+}
+
+export interface ErrorBoundaryProps {
+  renderApiError?: (props: FallbackProps<ApiError>) => React.ReactNode;
+  renderValidationError?: (props: FallbackProps<ValidationError>) => React.ReactNode;
+  renderFallback?: (props: FallbackProps) => React.ReactNode;
+  onError?: (error: unknown, info: React.ErrorInfo) => void;
+  // Runs before children re-render after a reset, e.g. to refetch data
+  onReset?: () => void;
+  // Changing any of these values clears the error, e.g. the current route params
+  resetKeys?: unknown[];
+}
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+  error: unknown;
+}
+
+interface FallbackViewProps {
+  title: string;
+  message: string;
+  actionLabel: string;
+  onAction: () => void;
+}
+
+const FallbackView: React.FC<FallbackViewProps> = ({ title, message, actionLabel, onAction }) => {
+  const { tokens } = useTheme();
+  const { colors, spacing, radii, typography } = tokens;
+
+  return (
+    <View style={{ flex: 1, justifyContent: 'center', padding: spacing.lg, backgroundColor: colors.background }}>
+      <Text style={{ ...typography.title, color: colors.error, marginBottom: spacing.sm }}>{title}</Text>
+      <Text style={{ ...typography.body, color: colors.text, marginBottom: spacing.md }}>{message}</Text>
+      <TouchableOpacity
+        onPress={onAction}
+        style={{ alignSelf: 'flex-start', paddingVertical: spacing.sm, paddingHorizontal: spacing.md, borderRadius: radii.md, backgroundColor: colors.primary }}
+      >
+        <Text style={{ ...typography.body, color: colors.onPrimary }}>{actionLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const ApiErrorFallback: React.FC<FallbackProps<ApiError>> = ({ error, message, resetError }) => {
+  const { t } = useTranslation();
+  return (
+    <FallbackView
+      title={error.status >= 500 ? t('errors.serverUnavailable') : t('errors.requestFailed')}
+      message={message}
+      actionLabel={t('common.retry')}
+      onAction={resetError}
+    />
+  );
+};
+
+const ValidationErrorFallback: React.FC<FallbackProps<ValidationError>> = ({ error, message, resetError }) => {
+  const { t } = useTranslation();
+  return (
+    <FallbackView
+      title={t('errors.invalidField', { field: error.field })}
+      message={message}
+      actionLabel={t('common.goBack')}
+      onAction={resetError}
+    />
+  );
+};
+
+const DefaultFallback: React.FC<FallbackProps> = ({ message, resetError }) => {
+  const { t } = useTranslation();
+  return <FallbackView title={t('errors.title')} message={message} actionLabel={t('common.retry')} onAction={resetError} />;
+};
+
+type BoundaryFallbackProps = Pick<ErrorBoundaryProps, 'renderApiError' | 'renderValidationError' | 'renderFallback'> & {
+  error: unknown;
+  resetError: () => void;
+};
+
+// Formats the message with the provider's t, so a locale switch re-renders the error screen
+const BoundaryFallback: React.FC<BoundaryFallbackProps> = ({
+  error,
+  resetError,
+  renderApiError,
+  renderValidationError,
+  renderFallback
+}) => {
+  const { t } = useTranslation();
+  const message = handleError(error, t);
+
+  if (isApiError(error)) {
+    const props = { error, message, resetError };
+    return <>{renderApiError ? renderApiError(props) : <ApiErrorFallback {...props} />}</>;
+  }
+  if (isValidationError(error)) {
+    const props = { error, message, resetError };
+    return <>{renderValidationError ? renderValidationError(props) : <ValidationErrorFallback {...props} />}</>;
+  }
+  const props = { error, message, resetError };
+  return <>{renderFallback ? renderFallback(props) : <DefaultFallback {...props} />}</>;
+};
+
+const initialState: ErrorBoundaryState = { hasError: false, error: null };
+
+export class ErrorBoundary extends React.Component<React.PropsWithChildren<ErrorBoundaryProps>, ErrorBoundaryState> {
+  state: ErrorBoundaryState = initialState;
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { hasError: true, error };
+  }
+
+  componentDidCatch(error: unknown, info: React.ErrorInfo): void {
+    reportError(error, { componentStack: info.componentStack });
+    this.props.onError?.(error, info);
+  }
+
+  componentDidUpdate(prevProps: ErrorBoundaryProps, prevState: ErrorBoundaryState): void {
+    const { resetKeys = [] } = this.props;
+    const prevKeys = prevProps.resetKeys ?? [];
+    const changed = resetKeys.length !== prevKeys.length || resetKeys.some((key, index) => !Object.is(key, prevKeys[index]));
+    // An error thrown in the same update that changed the keys must stay caught, or the child re-renders and throws again
+    if (prevState.hasError && this.state.hasError && changed) {
+      this.resetError();
+    }
+  }
+
+  resetError = (): void => {
+    this.props.onReset?.();
+    this.setState(initialState);
+  };
+
+  render(): React.ReactNode {
+    const { hasError, error } = this.state;
+    if (!hasError) {
+      return this.props.children;
+    }
+
+    const { renderApiError, renderValidationError, renderFallback } = this.props;
+    return (
+      <BoundaryFallback
+        error={error}
+        resetError={this.resetError}
+        renderApiError={renderApiError}
+        renderValidationError={renderValidationError}
+        renderFallback={renderFallback}
+      />
+    );
+  }
+}
+
+// Wraps a component in an ErrorBoundary while keeping its props type
+export function withErrorBoundary<P extends object>(
+  Component: React.ComponentType<P>,
+  boundaryProps: ErrorBoundaryProps = {}
+): React.FC<P> {
+  const Wrapped: React.FC<P> = (props) => (
+    <ErrorBoundary {...boundaryProps}>
+      <Component {...props} />
+    </ErrorBoundary>
+  );
+  Wrapped.displayName = `withErrorBoundary(${Component.displayName ?? Component.name ?? 'Component'})`;
+  return Wrapped;
+}
+
+ErrorBoundary.tsx
+Networking
+Type HTTP Clients
+Create one client per backend so base URL, headers, timeouts and retries are configured in a single place:
+
+import { ApiResponse } from '../types';
+import { ApiError, CancelledError, NetworkError, TimeoutError, UnauthorizedError } from '../utils/errorHandling';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface RequestConfig<T> {
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retries?: number;
+  signal?: AbortSignal;
+  // Turns the untrusted response body into T; without it the body is only asserted
+  parse?: (data: unknown) => T;
+}
+
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>;
+// retry sends a request again, e.g. with fresh credentials after a 401
+export type ResponseInterceptor = (
+  response: Response,
+  request: ApiRequest,
+  retry: (request: ApiRequest) => Promise<Response>
+) => Response | Promise<Response>;
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retries?: number;
+  // Base delay for exponential backoff: retryDelay, 2 * retryDelay, 4 * retryDelay...
+  retryDelay?: number;
+  fetch?: typeof fetch;
+}
+
+export interface ApiClient {
+  request: <T>(method: HttpMethod, path: string, body?: unknown, config?: RequestConfig<T>) => Promise<ApiResponse<T>>;
+  get: <T>(path: string, config?: RequestConfig<T>) => Promise<ApiResponse<T>>;
+  post: <T>(path: string, body?: unknown, config?: RequestConfig<T>) => Promise<ApiResponse<T>>;
+  put: <T>(path: string, body?: unknown, config?: RequestConfig<T>) => Promise<ApiResponse<T>>;
+  patch: <T>(path: string, body?: unknown, config?: RequestConfig<T>) => Promise<ApiResponse<T>>;
+  delete: <T>(path: string, config?: RequestConfig<T>) => Promise<ApiResponse<T>>;
+  // Both return a function that removes the interceptor again
+  onRequest: (interceptor: RequestInterceptor) => () => void;
+  onResponse: (interceptor: ResponseInterceptor) => () => void;
+}
+
+// Backoff between retries; a cancel during the wait rejects instead of sending another attempt
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Request cancelled during retry backoff'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const buildUrl = (baseUrl: string, path: string, query: RequestConfig<unknown>['query'] = {}): string => {
+  const url = `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return params.length > 0 ? `${url}?${params.join('&')}` : url;
+};
+
+// Binary bodies such as upload chunks are sent as-is, everything else as JSON
+const encodeBody = (body: unknown): BodyInit | undefined => {
+  if (body === undefined) return undefined;
+  return body instanceof Blob ? body : JSON.stringify(body);
+};
+
+const readBody = async (response: Response): Promise<unknown> => {
+  if (response.status === 204) return null;
+  const contentType = response.headers.get('content-type') ?? '';
+  return contentType.includes('application/json') ? response.json() : response.text();
+};
+
+// Builds the ApiError for a failed response, preferring the message the backend sent
+const toApiError = async (response: Response): Promise<ApiError> => {
+  const body = await readBody(response).catch(() => undefined);
+  const message = typeof body === 'object' && body !== null && 'message' in body && typeof body.message === 'string'
+    ? body.message
+    : response.statusText || `HTTP error: ${response.status}`;
+
+  return response.status === 401
+    ? new UnauthorizedError(message, { body })
+    : new ApiError(message, response.status, { body });
+};
+
+export const createApiClient = ({
+  baseUrl,
+  headers: defaultHeaders = {},
+  timeout: defaultTimeout = 10000,
+  retries: defaultRetries = 2,
+  retryDelay = 300,
+  fetch: fetchImpl = fetch
+}: ApiClientOptions): ApiClient => {
+  const requestInterceptors: RequestInterceptor[] = [];
+  const responseInterceptors: ResponseInterceptor[] = [];
+
+  const send = async (request: ApiRequest, timeout: number, signal?: AbortSignal): Promise<Response> => {
+    // An abort listener added to an already aborted signal never fires, so check first
+    if (signal?.aborted) {
+      throw new CancelledError(`${request.method} ${request.url} was cancelled`);
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
+    try {
+      return await fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: encodeBody(request.body),
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError(`${request.method} ${request.url} was cancelled`, { cause: error });
+      }
+      if (controller.signal.aborted) {
+        throw new TimeoutError(`${request.method} ${request.url} timed out after ${timeout}ms`, timeout, { cause: error });
+      }
+      throw new NetworkError(`${request.method} ${request.url} failed: no response`, { cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  };
+
+  const request = async <T>(
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    config: RequestConfig<T> = {}
+  ): Promise<ApiResponse<T>> => {
+    const { query, headers, timeout = defaultTimeout, retries = defaultRetries, signal, parse } = config;
+
+    let prepared: ApiRequest = {
+      url: buildUrl(baseUrl, path, query),
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body === undefined || body instanceof Blob ? {} : { 'Content-Type': 'application/json' }),
+        ...defaultHeaders,
+        ...headers
+      },
+      body
+    };
+    for (const interceptor of requestInterceptors) {
+      prepared = await interceptor(prepared);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let response = await send(prepared, timeout, signal);
+      for (const interceptor of responseInterceptors) {
+        response = await interceptor(response, prepared, next => send(next, timeout, signal));
+      }
+
+      // Only server errors are worth retrying; 4xx responses will not change on their own
+      if (response.status >= 500 && attempt < retries) {
+        await sleep(retryDelay * 2 ** attempt, signal);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw await toApiError(response);
+      }
+
+      const data = await readBody(response);
+      return {
+        data: parse ? parse(data) : (data as T),
+        status: response.status,
+        message: response.statusText
+      };
+    }
+  };
+
+  const register = <I>(list: I[], interceptor: I) => {
+    list.push(interceptor);
+    return () => {
+      const index = list.indexOf(interceptor);
+      if (index >= 0) list.splice(index, 1);
+    };
+  };
+
+  return {
+    request,
+    get: (path, config) => request('GET', path, undefined, config),
+    post: (path, body, config) => request('POST', path, body, config),
+    put: (path, body, config) => request('PUT', path, body, config),
+    patch: (path, body, config) => request('PATCH', path, body, config),
+    delete: (path, config) => request('DELETE', path, undefined, config),
+    onRequest: interceptor => register(requestInterceptors, interceptor),
+    onResponse: interceptor => register(responseInterceptors, interceptor)
+  };
+};
+
+apiClient.ts
+Validate API Responses at Runtime
+Describe a payload once to get both its static type and a runtime check, so bad backend data fails at the boundary instead of deep inside a screen:
+
+import { ValidationError } from './errorHandling';
+
+export interface Schema<T> {
+  // Returns the value typed as T or throws ValidationError naming the offending field path
+  parse: (value: unknown, path?: string) => T;
+}
+
+// Extract the static type described by a schema
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// Keys whose schema accepts undefined become optional properties
+type ObjectType<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const fail = (path: string, message: string): never => {
+  throw new ValidationError(message, path || 'root');
+};
+
+const primitive = <T>(name: string, check: (value: unknown) => value is T): Schema<T> => ({
+  parse: (value, path = '') => check(value) ? value : fail(path, `Expected ${name}, received ${describe(value)}`)
+});
+
+const string = (): Schema<string> =>
+  primitive('string', (value): value is string => typeof value === 'string');
+
+const number = (): Schema<number> =>
+  primitive('number', (value): value is number => typeof value === 'number' && !Number.isNaN(value));
+
+const boolean = (): Schema<boolean> =>
+  primitive('boolean', (value): value is boolean => typeof value === 'boolean');
+
+const literal = <T extends string | number | boolean>(expected: T): Schema<T> =>
+  primitive(JSON.stringify(expected), (value): value is T => value === expected);
+
+const oneOf = <T extends string>(...options: T[]): Schema<T> =>
+  primitive(`one of ${options.join(' | ')}`, (value): value is T => options.some(option => option === value));
+
+// Accepts a Date or an ISO string, as dates arrive as strings over JSON
+const date = (): Schema<Date> => ({
+  parse: (value, path = '') => {
+    const parsed = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+    return parsed && !Number.isNaN(parsed.getTime())
+      ? parsed
+      : fail(path, `Expected date, received ${describe(value)}`);
+  }
+});
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path) => value === undefined ? undefined : schema.parse(value, path)
+});
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  parse: (value, path) => value === null ? null : schema.parse(value, path)
+});
+
+const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '') => Array.isArray(value)
+    ? value.map((entry, index) => item.parse(entry, `${path}[${index}]`))
+    : fail(path, `Expected array, received ${describe(value)}`)
+});
+
+const object = <S extends Shape>(shape: S): Schema<ObjectType<S>> => ({
+  parse: (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, `Expected object, received ${describe(value)}`);
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key].parse(input[key], path ? `${path}.${key}` : key);
+      if (parsed !== undefined) output[key] = parsed;
+    }
+    // Unknown keys are dropped so extra backend fields never leak into the model
+    return output as ObjectType<S>;
+  }
+});
+
+// Adds a custom rule on top of an existing schema, e.g. an email format
+const refine = <T>(schema: Schema<T>, check: (value: T) => boolean, message: string): Schema<T> => ({
+  parse: (value, path = '') => {
+    const parsed = schema.parse(value, path);
+    return check(parsed) ? parsed : fail(path, message);
+  }
+});
+
+export const s = {
+  string,
+  number,
+  boolean,
+  literal,
+  oneOf,
+  date,
+  optional,
+  nullable,
+  array,
+  object,
+  refine
+};
+
+schema.ts
+import { ApiResponse, Product, User } from './index';
+import { Todo } from '../store/types';
+import { Schema, s } from '../utils/schema';
+import { PublicUser } from '../utils/utilityTypes';
+
+// Annotating with the existing interfaces keeps schema and model from drifting apart
+export const emailSchema = s.refine(s.string(), value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value), 'Expected a valid email address');
+
+export const userSchema: Schema<User> = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: emailSchema
+});
+
+export const publicUserSchema: Schema<PublicUser> = s.object({
+  id: s.string(),
+  name: s.string(),
+  email: emailSchema,
+  createdAt: s.date(),
+  role: s.oneOf('admin', 'user')
+});
+
+export const productSchema: Schema<Product> = s.object({
+  id: s.string(),
+  name: s.string(),
+  price: s.number(),
+  inStock: s.boolean()
+});
+
+export const todoSchema: Schema<Todo> = s.object({
+  id: s.string(),
+  text: s.string(),
+  completed: s.boolean()
+});
+
+// For endpoints that return the envelope themselves; errors point at e.g. data.email
+export const apiResponseSchema = <T>(data: Schema<T>): Schema<ApiResponse<T>> => {
+  const envelope = s.object({ status: s.number(), message: s.string() });
+
+  return {
+    parse: (value, path = '') => {
+      const { status, message } = envelope.parse(value, path);
+      // The envelope check above guarantees value is an object
+      const payload = (value as Record<string, unknown>).data;
+      return { data: data.parse(payload, path ? `${path}.data` : 'data'), status, message };
+    }
+  };
+};
+
+schemas.ts
+Queue Mutations While Offline
+Persist writes that fail for lack of a connection and replay them in order once the device is back online:
+
+import { ApiClient, HttpMethod } from './apiClient';
+import { ApiError, NetworkError, TimeoutError, isApiError } from '../utils/errorHandling';
+import { reportError } from '../utils/errorReporting';
+import { Schema, s } from '../utils/schema';
+import { StorageAdapter } from '../utils/storage';
+
+export interface Mutation {
+  id: string;
+  method: Exclude<HttpMethod, 'GET'>;
+  path: string;
+  body?: unknown;
+  createdAt: number;
+  attempts: number;
+  // Times onConflict asked for a retry
+  conflicts: number;
+}
+
+export interface ConnectivitySource {
+  isOnline: () => boolean;
+  subscribe: (listener: (online: boolean) => void) => () => void;
+}
+
+// Whether the user has a session; after a 401 or 403 the queue waits for the next sign-in
+export interface SessionSource {
+  isSignedIn: () => boolean;
+  subscribe: (listener: (signedIn: boolean) => void) => () => void;
+}
+
+// What to do with a mutation the server rejected with 409 Conflict
+export type ConflictResolution =
+  | { action: 'retry'; body: unknown }
+  | { action: 'discard' };
+
+export type ConflictHandler = (mutation: Mutation, error: ApiError) => ConflictResolution | Promise<ConflictResolution>;
+
+export type QueueEvent =
+  | { type: 'enqueued'; mutation: Mutation }
+  | { type: 'succeeded'; mutation: Mutation }
+  | { type: 'failed'; mutation: Mutation; error: unknown }
+  | { type: 'conflict'; mutation: Mutation; resolution: ConflictResolution }
+  | { type: 'paused'; mutation: Mutation; error: ApiError };
+
+export interface OfflineQueueOptions {
+  client: ApiClient;
+  storage: StorageAdapter;
+  connectivity: ConnectivitySource;
+  onConflict: ConflictHandler;
+  // Without one, a mutation rejected with 401 or 403 stays queued and is retried on the next flush
+  session?: SessionSource;
+  storageKey?: string;
+  maxAttempts?: number;
+  // Conflict retries per mutation before it is dropped and reported as failed
+  maxConflicts?: number;
+  retryDelay?: number;
+}
+
+export interface OfflineQueue {
+  // Restores persisted mutations and starts replaying on reconnect
+  start: () => Promise<void>;
+  stop: () => void;
+  enqueue: (mutation: Pick<Mutation, 'method' | 'path' | 'body'>) => Promise<Mutation>;
+  flush: () => Promise<void>;
+  pending: () => Mutation[];
+  subscribe: (listener: (event: QueueEvent) => void) => () => void;
+}
+
+// No response, timeouts, rate limiting and server errors may succeed on a later attempt
+const TRANSIENT_STATUSES = [408, 429];
+const isTransient = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  (isApiError(error) && (TRANSIENT_STATUSES.includes(error.status) || error.status >= 500));
+
+// The session expired or lacks rights, not the mutation; it can succeed after the user signs in again
+const AUTH_STATUSES = [401, 403];
+
+// Bodies are whatever the caller queued, so only the envelope is checked
+const bodySchema: Schema<unknown> = { parse: value => value };
+
+const storedQueueSchema: Schema<Mutation[]> = s.array(s.object({
+  id: s.string(),
+  method: s.oneOf('POST', 'PUT', 'PATCH', 'DELETE'),
+  path: s.string(),
+  body: bodySchema,
+  createdAt: s.number(),
+  attempts: s.number(),
+  conflicts: s.number()
+}));
+
+let sequence = 0;
+
+export const createOfflineQueue = ({
+  client,
+  storage,
+  connectivity,
+  onConflict,
+  session,
+  storageKey = '@offline-queue',
+  maxAttempts = 5,
+  maxConflicts = 3,
+  retryDelay = 1000
+}: OfflineQueueOptions): OfflineQueue => {
+  let queue: Mutation[] = [];
+  let flushing: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let unsubscribeConnectivity: (() => void) | undefined;
+  let unsubscribeSession: (() => void) | undefined;
+  let waitingForSession = false;
+  const listeners = new Set<(event: QueueEvent) => void>();
+
+  const emit = (event: QueueEvent) => listeners.forEach(listener => listener(event));
+
+  const persist = () => storage.setItem(storageKey, JSON.stringify(queue));
+
+  const remove = async (id: string) => {
+    queue = queue.filter(mutation => mutation.id !== id);
+    await persist();
+  };
+
+  const scheduleRetry = (attempts: number) => {
+    clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => {
+      flush().catch(reportError);
+    }, retryDelay * 2 ** (attempts - 1));
+  };
+
+  // Sends mutations strictly in order; a transient failure stops the run so later writes wait
+  const drain = async (): Promise<void> => {
+    while (queue.length > 0 && connectivity.isOnline() && !waitingForSession) {
+      const mutation = queue[0];
+      try {
+        await client.request(mutation.method, mutation.path, mutation.body, { retries: 0 });
+        await remove(mutation.id);
+        emit({ type: 'succeeded', mutation });
+      } catch (error) {
+        if (isApiError(error) && AUTH_STATUSES.includes(error.status)) {
+          // Keep the mutation at the head so later writes still wait behind it
+          waitingForSession = session !== undefined;
+          emit({ type: 'paused', mutation, error });
+          return;
+        }
+
+        if (isApiError(error) && error.status === 409) {
+          const resolution = await onConflict(mutation, error);
+          emit({ type: 'conflict', mutation, resolution });
+          if (resolution.action === 'discard') {
+            await remove(mutation.id);
+            continue;
+          }
+
+          // A server that keeps answering 409 gets backoff and, eventually, the mutation dropped
+          const conflicts = mutation.conflicts + 1;
+          if (conflicts > maxConflicts) {
+            await remove(mutation.id);
+            emit({ type: 'failed', mutation, error });
+            continue;
+          }
+          queue[0] = { ...mutation, body: resolution.body, conflicts };
+          await persist();
+          scheduleRetry(conflicts);
+          return;
+        }
+
+        const attempts = mutation.attempts + 1;
+        if (isTransient(error) && attempts < maxAttempts) {
+          queue[0] = { ...mutation, attempts };
+          await persist();
+          scheduleRetry(attempts);
+          return;
+        }
+
+        // Client errors will not succeed on replay, so drop the mutation and report it
+        await remove(mutation.id);
+        emit({ type: 'failed', mutation, error });
+      }
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (!flushing) {
+      flushing = drain().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  const start = async (): Promise<void> => {
+    const stored = await storage.getItem(storageKey);
+    if (stored) {
+      try {
+        const restored = storedQueueSchema.parse(JSON.parse(stored));
+        const known = new Set(queue.map(mutation => mutation.id));
+        queue = [...restored.filter(mutation => !known.has(mutation.id)), ...queue];
+      } catch (error) {
+        // A corrupted or outdated payload cannot be replayed safely, so it is reported and dropped
+        reportError(error, { storageKey });
+      }
+    }
+    unsubscribeConnectivity?.();
+    unsubscribeConnectivity = connectivity.subscribe(online => {
+      if (online) flush().catch(reportError);
+    });
+    unsubscribeSession?.();
+    unsubscribeSession = session?.subscribe(signedIn => {
+      if (!signedIn) return;
+      waitingForSession = false;
+      flush().catch(reportError);
+    });
+    if (connectivity.isOnline()) await flush();
+  };
+
+  const stop = (): void => {
+    clearTimeout(retryTimer);
+    unsubscribeConnectivity?.();
+    unsubscribeConnectivity = undefined;
+    unsubscribeSession?.();
+    unsubscribeSession = undefined;
+  };
+
+  const enqueue = async (input: Pick<Mutation, 'method' | 'path' | 'body'>): Promise<Mutation> => {
+    const mutation: Mutation = {
+      ...input,
+      id: `${Date.now().toString(36)}-${(sequence++).toString(36)}`,
+      createdAt: Date.now(),
+      attempts: 0,
+      conflicts: 0
+    };
+    queue = [...queue, mutation];
+    await persist();
+    emit({ type: 'enqueued', mutation });
+    if (connectivity.isOnline()) flush().catch(reportError);
+    return mutation;
+  };
+
+  return {
+    start,
+    stop,
+    enqueue,
+    flush,
+    pending: () => [...queue],
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+// Connectivity you can toggle by hand in tests; wrap NetInfo the same way in the app
+export const createFakeConnectivity = (initiallyOnline = true) => {
+  let online = initiallyOnline;
+  const listeners = new Set<(online: boolean) => void>();
+
+  const source: ConnectivitySource = {
+    isOnline: () => online,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+
+  const setOnline = (next: boolean) => {
+    online = next;
+    listeners.forEach(listener => listener(next));
+  };
+
+  return { source, setOnline };
+};
+
+// Feed it from AuthContext, e.g. useEffect(() => setSignedIn(status === 'signedIn'), [status]); tests set it by hand
+export const createSessionSource = (initiallySignedIn = true) => {
+  let signedIn = initiallySignedIn;
+  const listeners = new Set<(signedIn: boolean) => void>();
+
+  const source: SessionSource = {
+    isSignedIn: () => signedIn,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+
+  const setSignedIn = (next: boolean) => {
+    if (next === signedIn) return;
+    signedIn = next;
+    listeners.forEach(listener => listener(next));
+  };
+
+  return { source, setSignedIn };
+};
+
+offlineQueue.ts
+Test the Queue Against Fakes
+The mock API, memory storage and the fake connectivity and session sources cover replay without a device or a network:
+
+import { createMockApi } from '../../testing/mockApi';
+import { createMemoryStorage } from '../../utils/storage';
+import { createFakeConnectivity, createOfflineQueue, createSessionSource, QueueEvent } from '../offlineQueue';
+
+describe('offline queue', () => {
+  const server = createMockApi<{ 'POST /todos': { id: string } }>();
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('keeps a mutation rejected with 401 and replays it after the next sign-in', async () => {
+    const session = createSessionSource();
+    const queue = createOfflineQueue({
+      client: server.createClient(),
+      storage: createMemoryStorage(),
+      connectivity: createFakeConnectivity().source,
+      session: session.source,
+      onConflict: () => ({ action: 'discard' })
+    });
+    const events: QueueEvent['type'][] = [];
+    queue.subscribe(event => events.push(event.type));
+    await queue.start();
+
+    server.on('POST /todos', () => new Response(null, { status: 401 }));
+    await queue.enqueue({ method: 'POST', path: '/todos', body: { text: 'Milk' } });
+    await queue.flush();
+
+    expect(queue.pending()).toHaveLength(1);
+    expect(events).toEqual(['enqueued', 'paused']);
+
+    server.on('POST /todos', () => ({ id: 'todo-1' }));
+    session.setSignedIn(false);
+    session.setSignedIn(true);
+    await queue.flush();
+
+    expect(queue.pending()).toEqual([]);
+    expect(events).toEqual(['enqueued', 'paused', 'succeeded']);
+    expect(server.requests.map(request => request.body)).toEqual([{ text: 'Milk' }, { text: 'Milk' }]);
+    queue.stop();
+  });
+});
+
+offlineQueue.test.ts
+Authentication
+Type Auth Context
+Keep the session in context, persist it through a secure storage adapter and refresh expired tokens transparently for every API call:
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { ApiClient } from '../api/apiClient';
+import { publicUserSchema } from '../types/schemas';
+import { isApiError } from '../utils/errorHandling';
+import { Schema, s } from '../utils/schema';
+import { StorageAdapter } from '../utils/storage';
+import { PublicUser, UserRole } from '../utils/utilityTypes';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface Session {
+  user: PublicUser;
+  tokens: AuthTokens;
+}
+
+// Backend calls the provider depends on; inject a fake in tests
+export interface AuthService {
+  login: (credentials: LoginCredentials) => Promise<Session>;
+  // Must not go through the client the provider is attached to, or a rejected refresh would refresh again
+  refresh: (refreshToken: string) => Promise<AuthTokens>;
+  logout?: (tokens: AuthTokens) => Promise<void>;
+}
+
+export type AuthStatus = 'restoring' | 'signedOut' | 'signedIn';
+
+interface AuthContextType {
+  status: AuthStatus;
+  user: PublicUser | null;
+  login: (credentials: LoginCredentials) => Promise<void>;
+  logout: () => Promise<void>;
+  hasRole: (...roles: UserRole[]) => boolean;
+}
+
+interface AuthProviderProps {
+  client: ApiClient;
+  service: AuthService;
+  // Back this with SecureStore or the Keychain in the app; tokens do not belong in AsyncStorage
+  storage: StorageAdapter;
+  storageKey?: string;
+}
+
+export const tokensSchema: Schema<AuthTokens> = s.object({
+  accessToken: s.string(),
+  refreshToken: s.string()
+});
+
+// Also used on restore, as the stored session is untrusted input like any API payload
+export const sessionSchema: Schema<Session> = s.object({
+  user: publicUserSchema,
+  tokens: tokensSchema
+});
+
+const bearer = (token: string): string => `Bearer ${token}`;
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider: React.FC<React.PropsWithChildren<AuthProviderProps>> = ({
+  children,
+  client,
+  service,
+  storage,
+  storageKey = '@auth'
+}) => {
+  const [status, setStatus] = useState<AuthStatus>('restoring');
+  const [user, setUser] = useState<PublicUser | null>(null);
+  // Interceptors read the session from a ref so they see new tokens without re-registering
+  const session = useRef<Session | null>(null);
+  const refreshing = useRef<Promise<AuthTokens | null> | null>(null);
+  const hasUserChoice = useRef(false);
+
+  const applySession = useCallback((next: Session | null): void => {
+    session.current = next;
+    setUser(next?.user ?? null);
+    setStatus(next ? 'signedIn' : 'signedOut');
+  }, []);
+
+  const saveSession = useCallback(async (next: Session | null): Promise<void> => {
+    applySession(next);
+    try {
+      if (next) {
+        await storage.setItem(storageKey, JSON.stringify(next));
+      } else {
+        await storage.removeItem(storageKey);
+      }
+    } catch (error) {
+      console.warn('Failed to persist session', error);
+    }
+  }, [applySession, storage, storageKey]);
+
+  // Restore the stored session unless the user already signed in or out
+  useEffect(() => {
+    let active = true;
+
+    storage
+      .getItem(storageKey)
+      .then(stored => (stored ? sessionSchema.parse(JSON.parse(stored)) : null))
+      .catch((error: unknown) => {
+        // A corrupt or outdated session only means signing in again
+        console.warn('Failed to restore session', error);
+        return null;
+      })
+      .then((restored) => {
+        if (active && !hasUserChoice.current) {
+          applySession(restored);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [storage, storageKey, applySession]);
+
+  // Concurrent 401s share one refresh instead of each spending the refresh token
+  const refreshTokens = useCallback((): Promise<AuthTokens | null> => {
+    const current = session.current;
+    if (!current) return Promise.resolve(null);
+
+    if (!refreshing.current) {
+      refreshing.current = service
+        .refresh(current.tokens.refreshToken)
+        .then(async (tokens) => {
+          // The user may have signed out while the refresh was in flight
+          if (session.current !== current) return null;
+          await saveSession({ ...current, tokens });
+          return tokens;
+        })
+        .catch(async (error: unknown) => {
+          // Only a rejected refresh token ends the session; a network error keeps it for later
+          if (isApiError(error) && session.current === current) {
+            await saveSession(null);
+          }
+          return null;
+        })
+        .finally(() => {
+          refreshing.current = null;
+        });
+    }
+    return refreshing.current;
+  }, [service, saveSession]);
+
+  useEffect(() => {
+    const removeRequest = client.onRequest((request) => {
+      const accessToken = session.current?.tokens.accessToken;
+      return accessToken
+        ? { ...request, headers: { ...request.headers, Authorization: bearer(accessToken) } }
+        : request;
+    });
+
+    const removeResponse = client.onResponse(async (response, request, retry) => {
+      const current = session.current;
+      if (response.status !== 401 || !current) return response;
+
+      // A request sent before the last refresh only needs the newer token
+      const tokens = request.headers.Authorization === bearer(current.tokens.accessToken)
+        ? await refreshTokens()
+        : current.tokens;
+      if (!tokens) return response;
+
+      // A second 401 is passed on and surfaces as UnauthorizedError
+      return retry({ ...request, headers: { ...request.headers, Authorization: bearer(tokens.accessToken) } });
+    });
+
+    return () => {
+      removeRequest();
+      removeResponse();
+    };
+  }, [client, refreshTokens]);
+
+  const login = useCallback(async (credentials: LoginCredentials): Promise<void> => {
+    hasUserChoice.current = true;
+    await saveSession(await service.login(credentials));
+  }, [service, saveSession]);
+
+  const logout = useCallback(async (): Promise<void> => {
+    hasUserChoice.current = true;
+    const current = session.current;
+    await saveSession(null);
+    if (!current) return;
+    // Signing out locally must work even when the server cannot be reached
+    await service.logout?.(current.tokens).catch((error: unknown) => {
+      console.warn('Failed to revoke session', error);
+    });
+  }, [service, saveSession]);
+
+  const value = useMemo<AuthContextType>(() => ({
+    status,
+    user,
+    login,
+    logout,
+    hasRole: (...roles) => user !== null && roles.includes(user.role)
+  }), [status, user, login, logout]);
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextType => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+AuthContext.tsx
+Guard Routes by Role
+Declare who may open each screen next to the param list, so a missing entry is a compile error rather than an open door:
+
+import { PermissionDeniedError } from '../utils/errorHandling';
+import { PublicUser, UserRole } from '../utils/utilityTypes';
+
+// 'public' needs no session, 'authenticated' any signed-in user, a role list one of those roles
+export type RouteAccess = 'public' | 'authenticated' | readonly UserRole[];
+
+export type RouteAccessMap<ParamList> = { [Screen in keyof ParamList]-?: RouteAccess };
+
+export const canAccessRoute = (access: RouteAccess, user: PublicUser | null): boolean => {
+  if (access === 'public') return true;
+  if (user === null) return false;
+  return access === 'authenticated' || access.includes(user.role);
+};
+
+export const createRouteGuard = <ParamList extends object>(access: RouteAccessMap<ParamList>) => {
+  const canAccess = (screen: keyof ParamList, user: PublicUser | null): boolean =>
+    canAccessRoute(access[screen], user);
+
+  // Register only these screens, so navigate() cannot reach the rest
+  const allowedScreens = (user: PublicUser | null): (keyof ParamList)[] =>
+    (Object.keys(access) as (keyof ParamList)[]).filter(screen => canAccess(screen, user));
+
+  // For imperative checks, e.g. before opening a deep link
+  const assertAccess = (screen: keyof ParamList, user: PublicUser | null): void => {
+    if (!canAccess(screen, user)) {
+      throw new PermissionDeniedError(`Not allowed to open ${String(screen)}`, `route:${String(screen)}`);
+    }
+  };
+
+  return { canAccess, allowedScreens, assertAccess };
+};
+
+routeGuards.ts
+Internationalization
+Type Translation Keys
+Infer every key and its {placeholders} from the base locale, so a missing or misspelled param is a compile error:
+
+// The base locale: its keys and {placeholders} define what t() accepts
+const en = {
+  common: {
+    close: 'Close',
+    retry: 'Try again',
+    goBack: 'Go back'
+  },
+  greeting: {
+    hello: 'Hello, {name}!',
+    // Plural entries are picked by count; 'other' is required
+    age: { one: 'You are {count} year old.', other: 'You are {count} years old.' }
+  },
+  media: {
+    video: 'Video, {duration}',
+    audio: '{title}, audio, {duration}',
+    pages: { one: '{count} page', other: '{count} pages' },
+    documentPages: { one: '{name}, {count} page', other: '{name}, {count} pages' },
+    openHint: 'Opens in full screen'
+  },
+  errors: {
+    default: 'Something went wrong. Please try again.',
+    unknown: 'An unknown error occurred',
+    api: 'API Error ({status}): {message}',
+    validation: 'Validation Error in {field}: {message}',
+    generic: 'Error: {message}',
+    server: 'The server could not complete the request.',
+    invalid: 'Some of the information is invalid.',
+    offline: 'You appear to be offline. Check your connection.',
+    timeout: 'The request took too long. Please try again.',
+    sessionExpired: 'Your session has expired. Please sign in again.',
+    permissionDenied: 'Permission was denied.',
+    permissionSettings: 'Allow {permission} access in Settings to use this feature.',
+    cancelled: 'The operation was cancelled.',
+    // Error boundary titles
+    title: 'Something went wrong',
+    serverUnavailable: 'Server unavailable',
+    requestFailed: 'Request failed',
+    invalidField: 'Invalid {field}'
+  },
+  settings: {
+    shareUsageData: 'Share usage data'
+  }
+} as const;
+
+export default en;
+
+en.ts
+import { LocaleMessages } from '..';
+
+// Typed against the base locale, so a missing key fails to compile
+const de: LocaleMessages = {
+  common: {
+    close: 'Schließen',
+    retry: 'Erneut versuchen',
+    goBack: 'Zurück'
+  },
+  greeting: {
+    hello: 'Hallo, {name}!',
+    age: { one: 'Du bist {count} Jahr alt.', other: 'Du bist {count} Jahre alt.' }
+  },
+  media: {
+    video: 'Video, {duration}',
+    audio: '{title}, Audio, {duration}',
+    pages: { one: '{count} Seite', other: '{count} Seiten' },
+    documentPages: { one: '{name}, {count} Seite', other: '{name}, {count} Seiten' },
+    openHint: 'Öffnet im Vollbild'
+  },
+  errors: {
+    default: 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+    unknown: 'Ein unbekannter Fehler ist aufgetreten',
+    api: 'API-Fehler ({status}): {message}',
+    validation: 'Validierungsfehler in {field}: {message}',
+    generic: 'Fehler: {message}',
+    server: 'Der Server konnte die Anfrage nicht abschließen.',
+    invalid: 'Einige Angaben sind ungültig.',
+    offline: 'Du scheinst offline zu sein. Prüfe deine Verbindung.',
+    timeout: 'Die Anfrage hat zu lange gedauert. Bitte versuche es erneut.',
+    sessionExpired: 'Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.',
+    permissionDenied: 'Die Berechtigung wurde verweigert.',
+    permissionSettings: 'Erlaube den Zugriff auf {permission} in den Einstellungen, um diese Funktion zu nutzen.',
+    cancelled: 'Der Vorgang wurde abgebrochen.',
+    title: 'Etwas ist schiefgelaufen',
+    serverUnavailable: 'Server nicht erreichbar',
+    requestFailed: 'Anfrage fehlgeschlagen',
+    invalidField: 'Ungültige Angabe: {field}'
+  },
+  settings: {
+    shareUsageData: 'Nutzungsdaten teilen'
+  }
+};
+
+export default de;
+
+de.ts
+import { LocaleMessages } from '..';
+
+// Arabic uses all six plural categories and renders right to left
+const ar: LocaleMessages = {
+  common: {
+    close: 'إغلاق',
+    retry: 'إعادة المحاولة',
+    goBack: 'رجوع'
+  },
+  greeting: {
+    hello: 'مرحبًا، {name}!',
+    age: {
+      zero: 'عمرك {count} سنة.',
+      one: 'عمرك سنة واحدة.',
+      two: 'عمرك سنتان.',
+      few: 'عمرك {count} سنوات.',
+      many: 'عمرك {count} سنة.',
+      other: 'عمرك {count} سنة.'
+    }
+  },
+  media: {
+    video: 'فيديو، {duration}',
+    audio: '{title}، صوت، {duration}',
+    pages: {
+      zero: '{count} صفحة',
+      one: 'صفحة واحدة',
+      two: 'صفحتان',
+      few: '{count} صفحات',
+      many: '{count} صفحة',
+      other: '{count} صفحة'
+    },
+    documentPages: {
+      zero: '{name}، {count} صفحة',
+      one: '{name}، صفحة واحدة',
+      two: '{name}، صفحتان',
+      few: '{name}، {count} صفحات',
+      many: '{name}، {count} صفحة',
+      other: '{name}، {count} صفحة'
+    },
+    openHint: 'يفتح في وضع ملء الشاشة'
+  },
+  errors: {
+    default: 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+    unknown: 'حدث خطأ غير معروف',
+    api: 'خطأ في الواجهة البرمجية ({status}): {message}',
+    validation: 'خطأ في التحقق من {field}: {message}',
+    generic: 'خطأ: {message}',
+    server: 'تعذر على الخادم إكمال الطلب.',
+    invalid: 'بعض المعلومات غير صالحة.',
+    offline: 'يبدو أنك غير متصل. تحقق من اتصالك.',
+    timeout: 'استغرق الطلب وقتًا طويلًا. يرجى المحاولة مرة أخرى.',
+    sessionExpired: 'انتهت صلاحية جلستك. يرجى تسجيل الدخول مرة أخرى.',
+    permissionDenied: 'تم رفض الإذن.',
+    permissionSettings: 'اسمح بالوصول إلى {permission} من الإعدادات لاستخدام هذه الميزة.',
+    cancelled: 'تم إلغاء العملية.',
+    title: 'حدث خطأ ما',
+    serverUnavailable: 'الخادم غير متاح',
+    requestFailed: 'فشل الطلب',
+    invalidField: '{field} غير صالح'
+  },
+  settings: {
+    shareUsageData: 'مشاركة بيانات الاستخدام'
+  }
+};
+
+export default ar;
+
+ar.ts
+import en from './locales/en';
+
+export type Messages = typeof en;
+
+// One string per plural category the language uses; 'other' is always required
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// Same shape as the base locale, any wording
+type Widen<T> = T extends string
+  ? string
+  : T extends PluralForms
+    ? PluralForms
+    : { [K in keyof T]: Widen<T[K]> };
+
+export type LocaleMessages = Widen<Messages>;
+
+// 'greeting.hello' | 'greeting.age' | ...
+type KeyPaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralForms ? K : `${K}.${KeyPaths<T[K]>}`;
+}[keyof T & string];
+
+type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T ? PathValue<T[Head], Rest> : never
+  : P extends keyof T ? T[P] : never;
+
+// 'Hello, {name}! {count}' -> 'name' | 'count'
+type Placeholders<S> = S extends `${string}{${infer Name}}${infer Rest}` ? Name | Placeholders<Rest> : never;
+
+type ParamValue = string | number;
+
+// Plurals always take a numeric count on top of their placeholders
+type ParamsOf<V> = V extends PluralForms
+  ? { count: number } & { [K in Exclude<Placeholders<V[keyof V]>, 'count'>]: ParamValue }
+  : { [K in Placeholders<V>]: ParamValue };
+
+export type TranslationKey = KeyPaths<Messages>;
+export type TranslationParams<K extends TranslationKey> = ParamsOf<PathValue<Messages, K>>;
+
+// Keys without placeholders take no second argument
+type TranslateArgs<K extends TranslationKey> = keyof TranslationParams<K> extends never
+  ? []
+  : [params: TranslationParams<K>];
+
+export type Locale = 'en' | 'de' | 'ar';
+export type DurationStyle = 'clock' | 'long';
+
+// Only the base locale is bundled; the rest load on first use
+const loaders: Record<Exclude<Locale, 'en'>, () => Promise<{ default: LocaleMessages }>> = {
+  de: () => import('./locales/de'),
+  ar: () => import('./locales/ar')
+};
+
+const RTL_LOCALES: readonly Locale[] = ['ar'];
+
+const isEntry = (value: unknown): value is string | PluralForms =>
+  typeof value === 'string' ||
+  (typeof value === 'object' && value !== null && typeof (value as PluralForms).other === 'string');
+
+// Undefined for missing keys and for namespaces, which have no text of their own
+const lookup = (messages: LocaleMessages, key: string): string | PluralForms | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[part] : undefined),
+    messages
+  );
+  return isEntry(value) ? value : undefined;
+};
+
+export const createI18n = (initialLocale: Locale = 'en') => {
+  const bundles = new Map<Locale, LocaleMessages>([['en', en]]);
+  const listeners = new Set<(locale: Locale) => void>();
+  let locale = initialLocale;
+
+  const numberFormat = (options?: Intl.NumberFormatOptions) => new Intl.NumberFormat(locale, options);
+
+  const load = async (next: Locale): Promise<LocaleMessages> => {
+    const cached = bundles.get(next);
+    if (cached) return cached;
+    if (next === 'en') return en;
+    const { default: bundle } = await loaders[next]();
+    bundles.set(next, bundle);
+    return bundle;
+  };
+
+  const setLocale = async (next: Locale): Promise<void> => {
+    await load(next);
+    locale = next;
+    listeners.forEach(listener => listener(next));
+  };
+
+  const t = <K extends TranslationKey>(key: K, ...[params]: TranslateArgs<K>): string => {
+    const values: Record<string, ParamValue> = params ?? {};
+    // A bundle that is still loading renders the base locale instead of raw keys
+    const entry = lookup(bundles.get(locale) ?? en, key) ?? lookup(en, key) ?? key;
+    const template = typeof entry === 'string'
+      ? entry
+      : entry[new Intl.PluralRules(locale).select(Number(values.count))] ?? entry.other;
+
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = values[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? numberFormat().format(value) : value;
+    });
+  };
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    numberFormat(options).format(value);
+
+  const formatDate = (value: Date | number, options?: Intl.DateTimeFormatOptions): string =>
+    new Intl.DateTimeFormat(locale, options).format(value);
+
+  // 'clock': 1:02:05 for players; 'long': 1 hr 2 min 5 sec for screen readers
+  const formatDuration = (seconds: number, style: DurationStyle = 'clock'): string => {
+    const total = Math.max(0, Math.round(seconds));
+    const parts = [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60];
+
+    if (style === 'clock') {
+      const [hours, minutes, secs] = parts;
+      const pad = (value: number) => formatNumber(value, { minimumIntegerDigits: 2 });
+      return hours > 0
+        ? `${formatNumber(hours)}:${pad(minutes)}:${pad(secs)}`
+        : `${formatNumber(minutes)}:${pad(secs)}`;
+    }
+
+    const units = ['hour', 'minute', 'second'] as const;
+    const spoken = parts
+      .map((value, index) => ({ value, unit: units[index] }))
+      .filter(({ value }, index) => value > 0 || (total === 0 && index === 2))
+      .map(({ value, unit }) => formatNumber(value, { style: 'unit', unit, unitDisplay: 'short' }));
+    return spoken.join(' ');
+  };
+
+  return {
+    t,
+    setLocale,
+    getLocale: () => locale,
+    isRTL: () => RTL_LOCALES.includes(locale),
+    formatNumber,
+    formatDate,
+    formatDuration,
+    subscribe: (listener: (locale: Locale) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+export type I18n = ReturnType<typeof createI18n>;
+
+// Shared instance for code outside components, such as handleError
+export const i18n = createI18n();
+export const { t } = i18n;
+
+index.ts
+Provide the Locale Through Context
+import React, { createContext, useContext, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { I18nManager } from 'react-native';
+import { I18n, Locale, i18n as defaultI18n } from '../i18n';
+import { StorageAdapter } from '../utils/storage';
+
+interface I18nContextType extends Omit<I18n, 'getLocale' | 'isRTL' | 'subscribe'> {
+  locale: Locale;
+  isRTL: boolean;
+}
+
+interface I18nProviderProps {
+  i18n?: I18n;
+  storage?: StorageAdapter;
+  storageKey?: string;
+  // Layout direction only flips after a reload, e.g. Updates.reloadAsync() in Expo
+  onDirectionChange?: (isRTL: boolean) => void;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+const isLocale = (value: string): value is Locale => value === 'en' || value === 'de' || value === 'ar';
+
+export const I18nProvider: React.FC<React.PropsWithChildren<I18nProviderProps>> = ({
+  children,
+  i18n = defaultI18n,
+  storage,
+  storageKey = '@locale',
+  onDirectionChange
+}) => {
+  const locale = useSyncExternalStore(i18n.subscribe, i18n.getLocale);
+  const isRTL = i18n.isRTL();
+
+  // Restore the persisted locale; its bundle loads before the switch happens
+  useEffect(() => {
+    storage
+      ?.getItem(storageKey)
+      .then((stored) => {
+        if (stored && isLocale(stored)) return i18n.setLocale(stored);
+      })
+      .catch((error: unknown) => {
+        console.warn('Failed to restore locale', error);
+      });
+  }, [i18n, storage, storageKey]);
+
+  useEffect(() => {
+    if (I18nManager.isRTL === isRTL) return;
+    I18nManager.allowRTL(isRTL);
+    I18nManager.forceRTL(isRTL);
+    onDirectionChange?.(isRTL);
+  }, [isRTL, onDirectionChange]);
+
+  const value = useMemo<I18nContextType>(() => ({
+    locale,
+    isRTL,
+    t: i18n.t,
+    formatNumber: i18n.formatNumber,
+    formatDate: i18n.formatDate,
+    formatDuration: i18n.formatDuration,
+    setLocale: async (next: Locale) => {
+      await i18n.setLocale(next);
+      await storage?.setItem(storageKey, next).catch((error: unknown) => {
+        console.warn('Failed to persist locale', error);
+      });
+    }
+  }), [i18n, locale, isRTL, storage, storageKey]);
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useTranslation = (): I18nContextType => {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within an I18nProvider');
+  }
+  return context;
+};
+
+I18nContext.tsx
+Analytics
+Type Analytics Events
+Map every event name to its payload, so a misspelled event or a missing field is a compile error instead of a gap in the dashboards:
+
+import { ApiClient } from '../api/apiClient';
+import { StorageAdapter } from '../utils/storage';
+
+// Screens of the app's root navigator, declared through ReactNavigation.RootParamList
+export type ScreenName = Extract<keyof ReactNavigation.RootParamList, string>;
+
+// Add new events here; snake_case names match what most analytics backends expect
+export interface AnalyticsEvents {
+  screen_viewed: { screen: ScreenName; previousScreen?: ScreenName };
+  button_pressed: { button: string };
+  item_selected: { id: string };
+  profile_viewed: { userId: string };
+}
+
+export type EventName = keyof AnalyticsEvents;
+
+// Discriminated by name, so narrowing on event.name also narrows the payload
+export type AnalyticsEvent = {
+  [Name in EventName]: { name: Name; payload: AnalyticsEvents[Name]; timestamp: number };
+}[EventName];
+
+export interface AnalyticsSink {
+  send: (events: AnalyticsEvent[]) => void | Promise<void>;
+}
+
+export interface AnalyticsOptions {
+  sinks: AnalyticsSink[];
+  batchSize?: number;
+  flushInterval?: number;
+  // Persists the opt-out choice; without it the choice lasts until the app restarts
+  storage?: StorageAdapter;
+  storageKey?: string;
+}
+
+export const createAnalytics = ({
+  sinks,
+  batchSize = 20,
+  flushInterval = 10000,
+  storage,
+  storageKey = '@analytics-opt-out'
+}: AnalyticsOptions) => {
+  let queue: AnalyticsEvent[] = [];
+  // Batches a sink failed to take, sent again ahead of its next batch
+  const failed = new Map<AnalyticsSink, AnalyticsEvent[]>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let optedOut = false;
+  let hasUserChoice = false;
+
+  // Nothing is sent before the stored choice is known, so an opted-out user's first events never leave the device
+  const restored = (storage?.getItem(storageKey) ?? Promise.resolve(null))
+    .then((stored) => {
+      if (stored !== null && !hasUserChoice) {
+        optedOut = stored === 'true';
+      }
+    })
+    .catch((error: unknown) => {
+      console.warn('Failed to restore analytics opt-out', error);
+    });
+
+  const discard = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    queue = [];
+    failed.clear();
+  };
+
+  const sendTo = async (sink: AnalyticsSink, events: AnalyticsEvent[]): Promise<void> => {
+    const batch = [...(failed.get(sink) ?? []), ...events];
+    failed.delete(sink);
+    if (batch.length === 0) return;
+
+    try {
+      await sink.send(batch);
+    } catch (error) {
+      // Recent activity matters most to dashboards, so a sink that stays down loses its oldest events first
+      failed.set(sink, batch.slice(-batchSize * 5));
+      console.warn('Analytics sink failed', error);
+    }
+  };
+
+  const flush = async (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+    await restored;
+    if (optedOut) {
+      discard();
+      return;
+    }
+
+    const events = queue;
+    queue = [];
+    await Promise.all(sinks.map(sink => sendTo(sink, events)));
+  };
+
+  const track = <Name extends EventName>(name: Name, payload: AnalyticsEvents[Name]): void => {
+    if (optedOut) return;
+    queue.push({ name, payload, timestamp: Date.now() } as AnalyticsEvent);
+
+    if (queue.length >= batchSize) {
+      flush();
+    } else if (!timer) {
+      timer = setTimeout(() => {
+        flush();
+      }, flushInterval);
+    }
+  };
+
+  // Opting out also drops everything not sent yet
+  const setOptedOut = async (next: boolean): Promise<void> => {
+    hasUserChoice = true;
+    optedOut = next;
+    if (next) discard();
+    await storage?.setItem(storageKey, String(next)).catch((error: unknown) => {
+      console.warn('Failed to persist analytics opt-out', error);
+    });
+  };
+
+  return {
+    track,
+    flush,
+    setOptedOut,
+    isOptedOut: async (): Promise<boolean> => {
+      await restored;
+      return optedOut;
+    }
+  };
+};
+
+export type Analytics = ReturnType<typeof createAnalytics>;
+
+export const createConsoleAnalyticsSink = (): AnalyticsSink => ({
+  send: (events) => {
+    events.forEach(event => console.log(`[analytics] ${event.name}`, event.payload));
+  }
+});
+
+// Collects every batch, so a test can assert on exactly what was tracked
+export const createMemoryAnalyticsSink = () => {
+  const events: AnalyticsEvent[] = [];
+  const sink: AnalyticsSink = {
+    send: (batch) => {
+      events.push(...batch);
+    }
+  };
+  return { sink, events };
+};
+
+export const createHttpAnalyticsSink = (client: ApiClient, path: string): AnalyticsSink => ({
+  send: async (events) => {
+    await client.post(path, { events });
+  }
+});
+
+let defaultAnalytics: Analytics = createAnalytics({ sinks: [] });
+
+// Call once at startup; until then events go nowhere
+export const configureAnalytics = (options: AnalyticsOptions): Analytics => {
+  defaultAnalytics = createAnalytics(options);
+  return defaultAnalytics;
+};
+
+export const getAnalytics = (): Analytics => defaultAnalytics;
+
+export const track = <Name extends EventName>(name: Name, payload: AnalyticsEvents[Name]): void =>
+  defaultAnalytics.track(name, payload);
+
+index.ts
+Track Screen Views Automatically
+Spread the returned props onto `NavigationContainer` and every focused screen is tracked once, including the first one:
+
+import { useCallback, useRef } from 'react';
+import { useNavigationContainerRef } from '@react-navigation/native';
+import { Analytics, ScreenName, getAnalytics } from './index';
+
+export const useScreenTracking = (analytics: Analytics = getAnalytics()) => {
+  const ref = useNavigationContainerRef<ReactNavigation.RootParamList>();
+  const currentScreen = useRef<ScreenName>();
+
+  const trackScreen = useCallback((): void => {
+    // getCurrentRoute() is typed loosely, but the container only renders RootParamList screens
+    const screen = ref.getCurrentRoute()?.name as ScreenName | undefined;
+    // Param changes and re-renders of the same screen are not new views
+    if (screen === undefined || screen === currentScreen.current) return;
+
+    analytics.track('screen_viewed', { screen, previousScreen: currentScreen.current });
+    currentScreen.current = screen;
+  }, [ref, analytics]);
+
+  return { ref, onReady: trackScreen, onStateChange: trackScreen };
+};
+
+useScreenTracking.ts
 Key Takeaways
 Define Clear Interfaces: Create explicit interfaces for props, state, and API responses.
 